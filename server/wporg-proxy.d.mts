@@ -0,0 +1,7 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+export declare const PROXY_PATH: string;
+export declare const isAllowedTarget: (value: string) => boolean;
+export declare const handleProxyRequest: (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+export declare const wporgProxyPlugin: () => Plugin;
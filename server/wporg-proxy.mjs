@@ -0,0 +1,151 @@
+// First-party CORS proxy for wordpress.org. It only forwards GET requests to
+// wordpress.org hosts, so it can't be used as an open relay.
+//
+// Mounted at /wporg-proxy by the Vite dev and preview servers (see vite.config.ts),
+// or run on its own:  npm run proxy   (PORT defaults to 8787)
+
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+export const PROXY_PATH = '/wporg-proxy';
+
+const ALLOWED_HOST = /^(?:[a-z0-9-]+\.)*wordpress\.org$/i;
+
+// Request headers passed on to wordpress.org (conditional requests included)
+const FORWARDED_REQUEST_HEADERS = ['accept', 'accept-language', 'if-none-match', 'if-modified-since'];
+
+// Response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'etag', 'last-modified', 'cache-control', 'retry-after'];
+
+// Redirects followed before giving up; each hop is checked before it's requested
+const MAX_REDIRECTS = 5;
+
+// Set on every response that came from wordpress.org, so the app can tell the
+// upstream status apart from the proxy's own errors (or a host without the proxy)
+export const UPSTREAM_STATUS_HEADER = 'x-upstream-status';
+
+/** @param {string} value */
+export const isAllowedTarget = (value) => {
+  try {
+    const target = new URL(value);
+    return target.protocol === 'https:' && ALLOWED_HOST.test(target.hostname);
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Fetches the target, following redirects only to allowed hosts, so the proxy
+ * never contacts anything outside wordpress.org. Resolves to null when a
+ * redirect leads elsewhere.
+ *
+ * @param {string} target
+ * @param {Record<string, string>} headers
+ * @returns {Promise<Response | null>}
+ */
+const fetchAllowed = async (target, headers) => {
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetch(url, { headers, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    url = new URL(location, url).href;
+    if (!isAllowedTarget(url)) return null;
+  }
+  throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+};
+
+/**
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {string} message
+ */
+const sendError = (res, status, message) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end(message);
+};
+
+/**
+ * Connect-style middleware. Expects req.url to be relative to PROXY_PATH
+ * (as when mounted with server.middlewares.use(PROXY_PATH, ...)).
+ *
+ * @param {import('node:http').IncomingMessage} req
+ * @param {import('node:http').ServerResponse} res
+ */
+export const handleProxyRequest = async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', FORWARDED_REQUEST_HEADERS.join(', '));
+  res.setHeader('Access-Control-Expose-Headers', [...FORWARDED_RESPONSE_HEADERS, UPSTREAM_STATUS_HEADER].join(', '));
+
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+  if (req.method !== 'GET') {
+    sendError(res, 405, 'Only GET requests are proxied');
+    return;
+  }
+
+  const target = new URL(req.url || '', 'http://localhost').searchParams.get('url');
+  if (!target || !isAllowedTarget(target)) {
+    sendError(res, 403, 'Only https://*.wordpress.org URLs can be proxied');
+    return;
+  }
+
+  /** @type {Record<string, string>} */
+  const headers = { 'User-Agent': 'wp-plugin-review-tracker (local proxy)' };
+  FORWARDED_REQUEST_HEADERS.forEach((name) => {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  });
+
+  try {
+    const upstream = await fetchAllowed(target, headers);
+    if (!upstream) {
+      sendError(res, 502, 'Upstream redirected outside wordpress.org');
+      return;
+    }
+
+    res.statusCode = upstream.status;
+    res.setHeader(UPSTREAM_STATUS_HEADER, String(upstream.status));
+    FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+      const value = upstream.headers.get(name);
+      if (value) res.setHeader(name, value);
+    });
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (error) {
+    sendError(res, 502, `Upstream request failed: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+/** Vite plugin that mounts the proxy on the dev and preview servers */
+export const wporgProxyPlugin = () => ({
+  name: 'wporg-proxy',
+  /** @param {{ middlewares: { use: Function } }} server */
+  configureServer(server) {
+    server.middlewares.use(PROXY_PATH, handleProxyRequest);
+  },
+  /** @param {{ middlewares: { use: Function } }} server */
+  configurePreviewServer(server) {
+    server.middlewares.use(PROXY_PATH, handleProxyRequest);
+  },
+});
+
+// Standalone mode
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  createServer((req, res) => {
+    const path = (req.url || '').split('?')[0];
+    if (path !== PROXY_PATH) {
+      sendError(res, 404, `Not found. Use ${PROXY_PATH}?url=<wordpress.org URL>`);
+      return;
+    }
+    req.url = (req.url || '').slice(PROXY_PATH.length);
+    handleProxyRequest(req, res);
+  }).listen(port, () => {
+    console.log(`wordpress.org proxy listening on http://localhost:${port}${PROXY_PATH}`);
+  });
+}
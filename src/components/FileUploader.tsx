@@ -3,24 +3,8 @@ import { useRef } from 'react';
 import { Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from '@/hooks/use-toast';
-
-interface Review {
-  date: string;
-  rating: number;
-  content: string;
-  author: string;
-  reviewUrl?: string;
-  title?: string;
-  id?: string;
-}
-
-interface PluginData {
-  slug: string;
-  name?: string;
-  reviews: Review[];
-  lastUpdated: string;
-  totalReviews: number;
-}
+import { UnsupportedVersionError, migratePayload } from '@/lib/migrations';
+import { PluginData, ValidationError, formatFieldError, validatePlugins } from '@/lib/schema';
 
 interface FileUploaderProps {
   onDataUploaded: (data: PluginData[]) => void;
@@ -47,19 +31,32 @@ const FileUploader = ({ onDataUploaded }: FileUploaderProps) => {
       try {
         const jsonData = JSON.parse(e.target?.result as string);
         
-        // Validate the data structure
-        if (Array.isArray(jsonData) && jsonData.every(item => 
-          item.slug && Array.isArray(item.reviews)
-        )) {
-          onDataUploaded(jsonData);
+        // Upgrade older backups, then validate against the shared schema
+        const plugins = validatePlugins(migratePayload(jsonData));
+        onDataUploaded(plugins);
+        toast({
+          title: "Success",
+          description: `Uploaded data for ${plugins.length} plugins`,
+        });
+      } catch (error) {
+        if (error instanceof UnsupportedVersionError) {
           toast({
-            title: "Success",
-            description: `Uploaded data for ${jsonData.length} plugins`,
+            title: "Unsupported file version",
+            description: error.message,
+            variant: "destructive",
           });
-        } else {
-          throw new Error('Invalid data format');
+          return;
+        }
+        if (error instanceof ValidationError) {
+          const details = error.fieldErrors.slice(0, 3).map(formatFieldError).join('; ');
+          const more = error.fieldErrors.length > 3 ? ` (and ${error.fieldErrors.length - 3} more)` : '';
+          toast({
+            title: "Invalid data file",
+            description: `${details}${more}`,
+            variant: "destructive",
+          });
+          return;
         }
-      } catch (error) {
         toast({
           title: "Error",
           description: "Failed to parse JSON file",
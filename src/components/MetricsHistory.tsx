@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStoreRecords } from '@/hooks/use-store-records';
+import { loadSnapshots } from '@/lib/db';
+import { downloadFile } from '@/lib/download';
+import { MetricSnapshot, snapshotsToCsv } from '@/lib/snapshots';
+
+type Metric = 'averageRating' | 'officialRating' | 'storedReviews' | 'numRatings' | 'activeInstalls';
+
+const METRICS: Record<Metric, string> = {
+  averageRating: 'Average rating (stored reviews)',
+  officialRating: 'Rating on wordpress.org',
+  storedReviews: 'Stored reviews',
+  numRatings: 'Ratings on wordpress.org',
+  activeInstalls: 'Active installs',
+};
+
+interface MetricsHistoryProps {
+  slug: string;
+  // Changes whenever the plugin is refreshed, so the history reloads
+  lastUpdated: string;
+}
+
+const MetricsHistory = ({ slug, lastUpdated }: MetricsHistoryProps) => {
+  const [metric, setMetric] = useState<Metric>('averageRating');
+  const { records: snapshots, isLoading } = useStoreRecords(loadSnapshots, slug, lastUpdated);
+
+  const chartConfig: ChartConfig = { [metric]: { label: METRICS[metric], color: '#000000' } };
+  const data = snapshots
+    .filter((snapshot: MetricSnapshot) => snapshot[metric] !== undefined && snapshot[metric] !== null)
+    .map(snapshot => ({ takenAt: snapshot.takenAt, [metric]: snapshot[metric] }));
+
+  const exportCsv = () => {
+    downloadFile(snapshotsToCsv(snapshots), `${slug}-metrics.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Select value={metric} onValueChange={value => setMetric(value as Metric)}>
+          <SelectTrigger className="w-64 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(METRICS).map(([key, label]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={exportCsv} disabled={snapshots.length === 0} title="Download metrics history as CSV">
+          <Download className="w-4 h-4" />
+          CSV
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : data.length < 2 ? (
+        <p className="text-sm text-gray-500">
+          {snapshots.length} snapshot{snapshots.length === 1 ? '' : 's'} so far. A trend shows up after a few refreshes.
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-48 w-full">
+          <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="takenAt"
+              tickFormatter={value => new Date(value).toLocaleDateString()}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={24}
+            />
+            <YAxis tickLine={false} axisLine={false} width={48} domain={['auto', 'auto']} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={value => new Date(value).toLocaleString()} />} />
+            <Line dataKey={metric} type="monotone" stroke={`var(--color-${metric})`} strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+};
+
+export default MetricsHistory;
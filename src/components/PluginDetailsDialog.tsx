@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { ExternalLink, Info, Star } from 'lucide-react';
+import MetricsHistory from '@/components/MetricsHistory';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { formatActiveInstalls, starRating } from '@/lib/plugin-info';
+import { LOCALE_PATTERN, PluginData, itemType } from '@/lib/schema';
+import { pluginPageUrl } from '@/lib/wporg';
+
+interface PluginDetailsDialogProps {
+  plugin: PluginData;
+  displayName: string;
+  onChangeLocales: (locales: string[]) => void;
+}
+
+const Fact = ({ label, value }: { label: string; value?: string }) => (
+  <div>
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-sm font-medium text-black">{value || '—'}</div>
+  </div>
+);
+
+// "de, ja.wordpress.org, pt-BR" -> ['de', 'ja', 'pt-br'], or the entries that aren't locales
+const parseLocales = (text: string) => {
+  const entries = text.split(/[\s,]+/).map(entry => entry.trim().toLowerCase().replace(/\.wordpress\.org\/?$/, '')).filter(Boolean);
+  const invalid = entries.filter(entry => !LOCALE_PATTERN.test(entry));
+  return { locales: Array.from(new Set(entries.filter(entry => LOCALE_PATTERN.test(entry)))), invalid };
+};
+
+const LocaleForums = ({ plugin, onChangeLocales }: Pick<PluginDetailsDialogProps, 'plugin' | 'onChangeLocales'>) => {
+  const [text, setText] = useState((plugin.locales || []).join(', '));
+  const { locales, invalid } = parseLocales(text);
+  const unchanged = locales.join(',') === (plugin.locales || []).join(',');
+
+  return (
+    <div>
+      <Label htmlFor="locale-forums" className="text-sm font-medium text-black">Locale forums</Label>
+      <p className="text-xs text-gray-500 mb-2">
+        Reviews and support threads from these locale sites are fetched with every refresh, e.g. "de, ja, pt-br".
+      </p>
+      <div className="flex gap-2">
+        <Input id="locale-forums" value={text} onChange={(e) => setText(e.target.value)} placeholder="de, ja" />
+        <Button variant="outline" onClick={() => onChangeLocales(locales)} disabled={invalid.length > 0 || unchanged}>
+          Save
+        </Button>
+      </div>
+      {invalid.length > 0 && (
+        <p className="text-xs text-red-600 mt-1">Not a locale subdomain: {invalid.join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+const PluginDetailsDialog = ({ plugin, displayName, onChangeLocales }: PluginDetailsDialogProps) => {
+  const metadata = plugin.metadata;
+  const banner = metadata?.banners?.high || metadata?.banners?.low || metadata?.screenshot;
+  const icon = metadata?.icons?.['2x'] || metadata?.icons?.['1x'] || metadata?.icons?.svg;
+  const stars = metadata ? starRating(metadata) : null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="hover:bg-gray-200 hover:text-black" title={itemType(plugin) === 'theme' ? 'Theme details' : 'Plugin details'}>
+          <Info className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        {banner && <img src={banner} alt="" className="w-full h-32 object-cover rounded-md" />}
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            {icon && <img src={icon} alt="" className="w-10 h-10 rounded" />}
+            {displayName}
+          </DialogTitle>
+          <DialogDescription>
+            {metadata?.author ? `By ${metadata.author}` : plugin.slug}
+            {metadata && ` · details fetched ${new Date(metadata.fetchedAt).toLocaleString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!metadata ? (
+          <p className="text-sm text-gray-500">No details yet. They are fetched with the next refresh.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <Fact label="Version" value={metadata.version} />
+              <Fact label="Active installs" value={metadata.activeInstalls !== undefined ? formatActiveInstalls(metadata.activeInstalls) : undefined} />
+              <Fact label="Last released" value={metadata.lastUpdated && new Date(metadata.lastUpdated).toLocaleDateString()} />
+              <Fact label="Requires WordPress" value={metadata.requiresWordPress} />
+              <Fact label="Tested up to" value={metadata.testedUpTo} />
+              <Fact label="Requires PHP" value={metadata.requiresPhp} />
+            </div>
+
+            {metadata.ratings && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                  <span className="font-medium text-black">{stars !== null ? `${stars} out of 5` : 'No rating'}</span>
+                  <span className="text-sm text-gray-500">({metadata.numRatings ?? 0} ratings on wordpress.org)</span>
+                </div>
+                <div className="space-y-1">
+                  {['5', '4', '3', '2', '1'].map(star => {
+                    const count = metadata.ratings[star] || 0;
+                    const percent = metadata.numRatings ? (count / metadata.numRatings) * 100 : 0;
+                    return (
+                      <div key={star} className="flex items-center gap-2 text-xs text-gray-600">
+                        <span className="w-12">{star} stars</span>
+                        <Progress value={percent} className="h-2 flex-1" />
+                        <span className="w-10 text-right">{count}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <LocaleForums plugin={plugin} onChangeLocales={onChangeLocales} />
+
+        <div>
+          <div className="text-sm font-medium text-black mb-2">History</div>
+          <MetricsHistory slug={plugin.slug} lastUpdated={plugin.lastUpdated} />
+        </div>
+
+        <div className="flex justify-between items-center text-sm text-gray-600">
+          <span>{plugin.reviews.length} reviews tracked</span>
+          <a
+            href={pluginPageUrl(plugin.slug, itemType(plugin))}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-black hover:underline"
+          >
+            View on wordpress.org
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PluginDetailsDialog;
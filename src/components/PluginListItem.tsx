@@ -0,0 +1,165 @@
+import { History, Pause, RefreshCw, Trash2, X } from 'lucide-react';
+import PluginDetailsDialog from '@/components/PluginDetailsDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FetchJob } from '@/hooks/use-fetch-queue';
+import { BackfillCheckpoint } from '@/lib/backfill';
+import { formatActiveInstalls, starRating } from '@/lib/plugin-info';
+import { REFRESH_INTERVAL_OPTIONS, formatIntervalLabel } from '@/lib/schedule';
+import { PluginData, PluginMetadata, itemType } from '@/lib/schema';
+import { cn } from '@/lib/utils';
+
+interface PluginListItemProps {
+  plugin: PluginData;
+  displayName: string;
+  fetchJob?: FetchJob;
+  nextRefresh: Date | null;
+  globalRefreshMinutes: number;
+  backfill?: BackfillCheckpoint;
+  onRefresh: () => void;
+  onCancelFetch: () => void;
+  onChangeRefreshInterval: (minutes?: number) => void;
+  onChangeLocales: (locales: string[]) => void;
+  onRemove: () => void;
+  onStartBackfill: () => void;
+  onPauseBackfill: () => void;
+}
+
+const BackfillProgress = ({ backfill }: { backfill: BackfillCheckpoint }) => {
+  const pagesDone = backfill.nextPage - 1;
+  const percent = backfill.totalPages ? Math.min(100, (pagesDone / backfill.totalPages) * 100) : 0;
+  const pages = backfill.totalPages ? `page ${pagesDone} of ${backfill.totalPages}` : `page ${pagesDone}`;
+
+  if (backfill.status === 'done') {
+    return (
+      <div className="text-xs text-green-700">
+        Full history fetched ({backfill.fetchedReviews} reviews, {new Date(backfill.updatedAt).toLocaleDateString()})
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-1">
+      <Progress value={percent} className="h-1.5" />
+      <div className={cn("text-xs", backfill.status === 'failed' ? "text-red-600" : "text-gray-500")}>
+        {backfill.status === 'running' && `Backfilling: ${pages} · ${backfill.fetchedReviews} reviews`}
+        {backfill.status === 'paused' && `Backfill paused at ${pages}`}
+        {backfill.status === 'failed' && `Backfill stopped at page ${backfill.nextPage}: ${backfill.error}`}
+      </div>
+    </div>
+  );
+};
+
+// "v2.3.1 · 100,000+ installs · 4.6★ (212) · tested up to 6.5"
+const metadataSummary = (metadata: PluginMetadata) => {
+  const stars = starRating(metadata);
+  return [
+    metadata.version && `v${metadata.version}`,
+    metadata.activeInstalls !== undefined && `${formatActiveInstalls(metadata.activeInstalls)} installs`,
+    stars !== null && `${stars}★ (${metadata.numRatings ?? 0})`,
+    metadata.testedUpTo && `tested up to ${metadata.testedUpTo}`,
+  ].filter(Boolean).join(' · ');
+};
+
+const PluginListItem = ({
+  plugin,
+  displayName,
+  fetchJob,
+  nextRefresh,
+  globalRefreshMinutes,
+  backfill,
+  onRefresh,
+  onCancelFetch,
+  onChangeRefreshInterval,
+  onChangeLocales,
+  onRemove,
+  onStartBackfill,
+  onPauseBackfill,
+}: PluginListItemProps) => {
+  const backfillRunning = backfill?.status === 'running';
+  const canResume = backfill?.status === 'paused' || backfill?.status === 'failed';
+  const fetching = fetchJob?.status === 'fetching';
+  const removedCount = plugin.reviews.filter(review => review.removedAt).length;
+  const fetchPending = fetching || fetchJob?.status === 'queued';
+
+  return (
+    <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200 hover:border-gray-300 transition-colors">
+      {plugin.metadata?.icons && (
+        <img
+          src={plugin.metadata.icons['1x'] || plugin.metadata.icons.svg || plugin.metadata.icons['2x']}
+          alt=""
+          className="w-10 h-10 rounded mr-3 self-start"
+        />
+      )}
+      <div className="flex-1">
+        <div className="flex items-center gap-2 font-semibold text-black">
+          {displayName}
+          {itemType(plugin) === 'theme' && <Badge variant="outline" className="text-xs font-normal">Theme</Badge>}
+        </div>
+        {plugin.metadata && (
+          <div className="text-xs text-gray-500">{metadataSummary(plugin.metadata)}</div>
+        )}
+        <div className="text-sm text-gray-600">
+          {plugin.reviews.length} reviews stored
+          {removedCount > 0 && ` (${removedCount} removed on wordpress.org)`}
+        </div>
+        <div className="text-xs text-gray-400">
+          Last updated: {new Date(plugin.lastUpdated).toLocaleString()}
+          {nextRefresh && ` · next refresh ${nextRefresh <= new Date() ? 'due now' : nextRefresh.toLocaleString()}`}
+        </div>
+        <Select
+          value={plugin.refreshIntervalMinutes === undefined ? 'default' : String(plugin.refreshIntervalMinutes)}
+          onValueChange={value => onChangeRefreshInterval(value === 'default' ? undefined : Number(value))}
+        >
+          <SelectTrigger className="h-7 w-52 mt-1 text-xs" title="Auto-refresh interval">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">Default ({formatIntervalLabel(globalRefreshMinutes).toLowerCase()})</SelectItem>
+            {REFRESH_INTERVAL_OPTIONS.map(option => (
+              <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {fetchJob?.status === 'queued' && <div className="text-xs text-gray-500">Queued for refresh</div>}
+        {fetchJob?.status === 'failed' && <div className="text-xs text-red-600">Refresh failed: {fetchJob.error}</div>}
+        {fetchJob?.status === 'cancelled' && <div className="text-xs text-gray-500">Refresh cancelled</div>}
+        {backfill && <BackfillProgress backfill={backfill} />}
+      </div>
+      <div className="flex gap-2">
+        <PluginDetailsDialog plugin={plugin} displayName={displayName} onChangeLocales={onChangeLocales} />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={backfillRunning ? onPauseBackfill : onStartBackfill}
+          className="hover:bg-gray-200 hover:text-black"
+          title={backfillRunning ? "Pause backfill" : canResume ? "Resume full history backfill" : "Fetch full review history"}
+        >
+          {backfillRunning ? <Pause className="w-4 h-4" /> : <History className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchPending ? onCancelFetch : onRefresh}
+          className="hover:bg-gray-200 hover:text-black"
+          title={fetchPending ? "Cancel refresh" : "Refresh reviews"}
+        >
+          {fetchPending && !fetching ? <X className="w-4 h-4" /> : <RefreshCw className={cn("w-4 h-4", fetching && "animate-spin")} />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="hover:bg-red-50 hover:text-red-600"
+          title="Remove plugin"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PluginListItem;
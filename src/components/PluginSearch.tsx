@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePluginSearch } from '@/hooks/use-plugin-search';
+import { PluginSearchResult, formatActiveInstalls, starRating } from '@/lib/plugin-info';
+import { PluginSearchField } from '@/lib/wporg';
+
+interface PluginSearchProps {
+  trackedSlugs: string[];
+  onSelect: (slug: string) => void;
+}
+
+const PLACEHOLDERS: Record<PluginSearchField, string> = {
+  search: 'Search plugins by keyword...',
+  tag: 'Plugins with the tag...',
+  author: 'Plugins by the wordpress.org user...',
+};
+
+const ResultRow = ({ result, tracked }: { result: PluginSearchResult; tracked: boolean }) => {
+  const metadata = result.metadata;
+  const icon = metadata?.icons?.['1x'] || metadata?.icons?.svg || metadata?.icons?.['2x'];
+  const stars = metadata ? starRating(metadata) : null;
+
+  return (
+    <div className="flex items-center gap-3 w-full">
+      {icon
+        ? <img src={icon} alt="" className="w-8 h-8 rounded shrink-0" />
+        : <div className="w-8 h-8 rounded bg-gray-100 shrink-0" />}
+      <div className="min-w-0 flex-1">
+        <div className="font-medium text-black truncate">{result.name}</div>
+        <div className="text-xs text-gray-500 flex items-center gap-2">
+          <span className="truncate">{result.slug}</span>
+          {metadata?.activeInstalls !== undefined && (
+            <span className="shrink-0">{formatActiveInstalls(metadata.activeInstalls)} installs</span>
+          )}
+          {stars !== null && (
+            <span className="shrink-0 inline-flex items-center gap-0.5">
+              <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+              {stars} ({metadata?.numRatings ?? 0})
+            </span>
+          )}
+        </div>
+      </div>
+      {tracked && <Badge variant="secondary" className="shrink-0">Tracked</Badge>}
+    </div>
+  );
+};
+
+// Type-ahead search of the plugin directory; picking a result adds it
+const PluginSearch = ({ trackedSlugs, onSelect }: PluginSearchProps) => {
+  const [query, setQuery] = useState('');
+  const [by, setBy] = useState<PluginSearchField>('search');
+  const { results, isSearching, error, minQueryLength } = usePluginSearch(query, by);
+  const showResults = query.trim().length >= minQueryLength;
+
+  return (
+    <div className="flex gap-2 items-start">
+      <Select value={by} onValueChange={value => setBy(value as PluginSearchField)}>
+        <SelectTrigger className="w-28" aria-label="Search by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="search">Keyword</SelectItem>
+          <SelectItem value="tag">Tag</SelectItem>
+          <SelectItem value="author">Author</SelectItem>
+        </SelectContent>
+      </Select>
+      {/* The API does the matching, so cmdk's own filtering is off */}
+      <Command shouldFilter={false} className="border rounded-md flex-1 h-auto">
+        <CommandInput value={query} onValueChange={setQuery} placeholder={PLACEHOLDERS[by]} />
+        {showResults && (
+          <CommandList>
+            <CommandEmpty>
+              {isSearching ? "Searching..." : error ? `Search failed: ${error}` : "No plugins found"}
+            </CommandEmpty>
+            {results.length > 0 && (
+              <CommandGroup heading={isSearching ? "Searching..." : "wordpress.org plugins"}>
+                {results.map(result => {
+                  const tracked = trackedSlugs.includes(result.slug);
+                  return (
+                    <CommandItem
+                      key={result.slug}
+                      value={result.slug}
+                      disabled={tracked}
+                      onSelect={() => {
+                        onSelect(result.slug);
+                        setQuery('');
+                      }}
+                    >
+                      <ResultRow result={result} tracked={tracked} />
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        )}
+      </Command>
+    </div>
+  );
+};
+
+export default PluginSearch;
@@ -0,0 +1,70 @@
+import { AlertTriangle, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { downloadFile } from '@/lib/download';
+import { IntegrityReport } from '@/lib/integrity';
+
+interface RecoveryDialogProps {
+  report: IntegrityReport;
+  rawPayload: string;
+  onConfirm: () => void;
+}
+
+const RecoveryDialog = ({ report, rawPayload, onConfirm }: RecoveryDialogProps) => {
+  const repairedCount = report.issues.filter(issue => issue.action === 'repaired').length;
+  const quarantinedCount = report.quarantined.length;
+
+  const downloadRawPayload = () => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadFile(rawPayload, `wordpress-plugin-reviews-raw-${timestamp}.json`);
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-500" />
+            Problems found in stored data
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {repairedCount} problem{repairedCount === 1 ? '' : 's'} can be repaired and {quarantinedCount} record{quarantinedCount === 1 ? '' : 's'} will be set aside.
+            Nothing has been overwritten yet. Download the raw data first if you want to keep a copy.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-64 overflow-y-auto rounded border border-gray-200 bg-gray-50 p-3 text-xs space-y-1">
+          {report.issues.map((issue, index) => (
+            <div key={index} className="flex gap-2">
+              <span className={issue.action === 'repaired' ? 'text-green-700 font-medium' : 'text-red-600 font-medium'}>
+                {issue.action === 'repaired' ? 'Repaired' : 'Quarantined'}
+              </span>
+              <span className="text-gray-500 font-mono">{issue.path || 'data'}</span>
+              <span className="text-gray-700">{issue.message}</span>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={downloadRawPayload}>
+            <Download className="w-4 h-4" />
+            Download raw data
+          </Button>
+          <AlertDialogAction onClick={onConfirm} className="bg-black hover:bg-gray-800 text-white">
+            Apply repairs and continue
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RecoveryDialog;
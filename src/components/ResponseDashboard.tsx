@@ -0,0 +1,77 @@
+import { MessagesSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatDuration, responseMetrics } from '@/lib/response-metrics';
+import { PluginData } from '@/lib/schema';
+import { cn } from '@/lib/utils';
+
+interface ResponseDashboardProps {
+  plugins: PluginData[];
+  // Highlighted as "ours" among the tracked competitors
+  selectedSlug?: string;
+  getDisplayName: (plugin: PluginData) => string;
+}
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+// Compares how quickly and how often the developers of each tracked item answer reviews
+const ResponseDashboard = ({ plugins, selectedSlug, getDisplayName }: ResponseDashboardProps) => {
+  const rows = plugins
+    .map(plugin => ({ plugin, metrics: responseMetrics(plugin) }))
+    .sort((a, b) => (b.metrics.responseRate ?? -1) - (a.metrics.responseRate ?? -1));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Response times">
+          <MessagesSquare className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review response times</DialogTitle>
+          <DialogDescription>
+            Replies by plugin or theme authors, contributors and support reps, read from each review thread.
+            Threads are read a few at a time on every refresh.
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Plugin or theme</TableHead>
+              <TableHead className="text-right">Reviews</TableHead>
+              <TableHead className="text-right">Answered by developers</TableHead>
+              <TableHead className="text-right">Response rate</TableHead>
+              <TableHead className="text-right">Median developer response</TableHead>
+              <TableHead className="text-right">Median first reply</TableHead>
+              <TableHead className="text-right">Not read yet</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ plugin, metrics }) => (
+              <TableRow key={plugin.slug} className={cn(plugin.slug === selectedSlug && "bg-gray-100 font-medium")}>
+                <TableCell>{getDisplayName(plugin)}</TableCell>
+                <TableCell className="text-right">{metrics.reviews}</TableCell>
+                <TableCell className="text-right">{metrics.developerReplied} of {metrics.known}</TableCell>
+                <TableCell className="text-right">{formatRate(metrics.responseRate)}</TableCell>
+                <TableCell className="text-right">{formatDuration(metrics.medianResponseMs)}</TableCell>
+                <TableCell className="text-right">{formatDuration(metrics.medianFirstReplyMs)}</TableCell>
+                <TableCell className="text-right text-gray-500">{metrics.pending}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResponseDashboard;
@@ -0,0 +1,108 @@
+import { ExternalLink, Star } from 'lucide-react';
+import ReviewDetailDrawer from '@/components/ReviewDetailDrawer';
+import ReviewRevisionsDialog from '@/components/ReviewRevisionsDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatDuration } from '@/lib/response-metrics';
+import { formatReviewDate, hasEstimatedDate, originalRating } from '@/lib/reviews';
+import { Review, ReviewThread } from '@/lib/schema';
+import { cn } from '@/lib/utils';
+import { localeLabel } from '@/lib/wporg';
+
+interface ReviewCardProps {
+  review: Review;
+  onThreadLoaded: (reviewId: string, thread: ReviewThread) => void;
+}
+
+const Stars = ({ rating }: { rating: number | null }) => {
+  if (rating === null) {
+    return <span className="text-sm text-gray-500 italic">Unknown rating</span>;
+  }
+  return (
+    <>
+      {Array.from({ length: 5 }, (_, i) => (
+        <Star
+          key={i}
+          className={cn(
+            "w-4 h-4",
+            i < rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+          )}
+        />
+      ))}
+    </>
+  );
+};
+
+const ReviewCard = ({ review, onThreadLoaded }: ReviewCardProps) => {
+  const previousRating = originalRating(review);
+
+  return (
+    <div className="border rounded-lg p-4 bg-white shadow-sm hover:shadow-md transition-shadow border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Stars rating={review.rating} />
+          {review.rating !== null && (
+            <span className="text-sm text-gray-600 font-medium">
+              {review.rating}/5
+            </span>
+          )}
+          {previousRating !== null && (
+            <Badge
+              variant="outline"
+              className={previousRating < review.rating ? "border-green-300 text-green-700" : "border-red-300 text-red-700"}
+              title="The reviewer changed their rating"
+            >
+              Rating changed {previousRating}★ → {review.rating}★
+            </Badge>
+          )}
+          {review.locale && (
+            <Badge variant="outline" className="border-blue-200 text-blue-700" title="Posted on a locale forum">
+              {localeLabel(review.locale)}
+            </Badge>
+          )}
+          {review.removedAt && (
+            <Badge variant="outline" className="border-gray-300 text-gray-600" title="No longer found on wordpress.org">
+              Removed on {new Date(review.removedAt).toLocaleDateString()}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500" title={hasEstimatedDate(review) ? 'Estimated from the listing; the exact date has not been read yet' : undefined}>
+            {formatReviewDate(review)}
+          </span>
+          {review.revisions?.length > 0 && <ReviewRevisionsDialog review={review} />}
+          {review.reviewUrl && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.open(review.reviewUrl, '_blank')}
+              className="hover:bg-gray-100 hover:text-black"
+              title="View original review"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-gray-700 text-sm leading-relaxed mb-1 whitespace-pre-line line-clamp-6">
+        {review.thread?.content ?? review.content}
+      </p>
+      <div className="mb-3">
+        <ReviewDetailDrawer review={review} onThreadLoaded={onThreadLoaded} />
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="font-medium">by {review.author}</span>
+        {review.replyCount !== undefined && (
+          <span className={cn(review.thread?.developerReplied && "text-green-700 font-medium")}>
+            {review.replyCount} {review.replyCount === 1 ? 'reply' : 'replies'}
+            {review.thread?.developerReplied && ` · answered by the developers${review.thread.developerReplyAt && !hasEstimatedDate(review)
+              ? ` after ${formatDuration(Math.max(0, new Date(review.thread.developerReplyAt).getTime() - new Date(review.date).getTime()))}`
+              : ''}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewCard;
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { toast } from '@/hooks/use-toast';
+import { formatReviewDate } from '@/lib/reviews';
+import { Review, ReviewThread } from '@/lib/schema';
+import { fetchReviewThread } from '@/lib/threads';
+import { cn } from '@/lib/utils';
+
+interface ReviewDetailDrawerProps {
+  review: Review;
+  onThreadLoaded: (reviewId: string, thread: ReviewThread) => void;
+}
+
+// The complete review and its replies. Threads read during refreshes are shown
+// as stored; others can be loaded from wordpress.org on demand.
+const ReviewDetailDrawer = ({ review, onThreadLoaded }: ReviewDetailDrawerProps) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const thread = review.thread;
+  const hasFullThread = thread?.content !== undefined || thread?.replies !== undefined;
+
+  const handleLoadThread = async () => {
+    setIsLoading(true);
+    try {
+      onThreadLoaded(review.id, await fetchReviewThread(review.reviewUrl));
+    } catch (error) {
+      console.error(`Failed to load thread ${review.reviewUrl}:`, error);
+      toast({
+        title: "Error",
+        description: "Failed to load the review thread. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs text-gray-600">
+          Read full review
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{review.title || 'Review'}</SheetTitle>
+          <SheetDescription>
+            {review.rating !== null ? `${review.rating}/5 · ` : ''}by {review.author}, {formatReviewDate(review)}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-6">
+          <p className="text-sm leading-relaxed text-gray-700 whitespace-pre-line">
+            {thread?.content ?? review.content}
+          </p>
+
+          <div className="flex items-center gap-2">
+            {review.reviewUrl && (
+              <Button variant="outline" size="sm" onClick={handleLoadThread} disabled={isLoading}>
+                {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                {hasFullThread ? 'Reload thread' : 'Load full thread'}
+              </Button>
+            )}
+            {review.reviewUrl && (
+              <Button variant="ghost" size="sm" onClick={() => window.open(review.reviewUrl, '_blank')}>
+                <ExternalLink className="w-4 h-4 mr-2" />
+                wordpress.org
+              </Button>
+            )}
+          </div>
+          {thread && (
+            <p className="text-xs text-gray-500">Thread read {new Date(thread.checkedAt).toLocaleString()}</p>
+          )}
+
+          {thread?.replies && (
+            <div className="space-y-3">
+              <div className="text-sm font-medium text-black">
+                {thread.replies.length} {thread.replies.length === 1 ? 'reply' : 'replies'}
+              </div>
+              {thread.replies.map((reply, index) => (
+                <div
+                  key={index}
+                  className={cn("border rounded-md p-3", reply.developer ? "border-green-200 bg-green-50" : "border-gray-200")}
+                >
+                  <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+                    <span className="flex items-center gap-2 font-medium text-gray-700">
+                      {reply.author}
+                      {reply.developer && (
+                        <Badge variant="outline" className="border-green-300 text-green-700">Developer</Badge>
+                      )}
+                    </span>
+                    {reply.postedAt && <span>{new Date(reply.postedAt).toLocaleString()}</span>}
+                  </div>
+                  <p className="text-sm leading-relaxed text-gray-700 whitespace-pre-line">
+                    {reply.content || <span className="italic text-gray-500">No text</span>}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ReviewDetailDrawer;
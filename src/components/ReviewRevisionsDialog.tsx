@@ -0,0 +1,83 @@
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Review } from '@/lib/schema';
+import { diffWords } from '@/lib/text-diff';
+import { cn } from '@/lib/utils';
+
+interface ReviewRevisionsDialogProps {
+  review: Review;
+}
+
+const formatRating = (rating: number | null) => (rating === null ? 'unknown rating' : `${rating}/5`);
+
+const TextDiff = ({ before, after }: { before: string; after: string }) => (
+  <p className="text-sm leading-relaxed whitespace-pre-wrap text-gray-700">
+    {diffWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={cn(
+          part.type === 'added' && "bg-green-100 text-green-900",
+          part.type === 'removed' && "bg-red-100 text-red-900 line-through"
+        )}
+      >
+        {part.text}
+      </span>
+    ))}
+  </p>
+);
+
+// Every stored version of a review, each diffed against the one that replaced it
+const ReviewRevisionsDialog = ({ review }: ReviewRevisionsDialogProps) => {
+  const revisions = review.revisions || [];
+  // Newest change first: [older, newer] pairs ending with the current text
+  const versions = [...revisions, { ...review, replacedAt: undefined }];
+  const changes = revisions
+    .map((revision, index) => ({ before: revision, after: versions[index + 1] }))
+    .reverse();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="hover:bg-gray-100 hover:text-black" title="Show edit history">
+          <History className="w-4 h-4" />
+          {revisions.length}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            Review by {review.author}, edited {revisions.length} time{revisions.length === 1 ? '' : 's'} since it was first stored
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {changes.map(({ before, after }, index) => (
+            <div key={index} className="border rounded-lg p-3 border-gray-200">
+              <div className="text-xs text-gray-500 mb-2">
+                Changed on or before {new Date(before.replacedAt).toLocaleString()}
+                {before.rating !== after.rating && (
+                  <span className="font-medium text-black"> · rating {formatRating(before.rating)} → {formatRating(after.rating)}</span>
+                )}
+              </div>
+              {before.content === after.content ? (
+                <p className="text-sm text-gray-500 italic">Text unchanged</p>
+              ) : (
+                <TextDiff before={before.content} after={after.content} />
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewRevisionsDialog;
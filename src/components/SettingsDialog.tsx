@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Settings as SettingsIcon, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { ProxyHealth, getProxyHealth, resetProxyHealth } from '@/lib/proxy';
+import { REFRESH_INTERVAL_OPTIONS } from '@/lib/schedule';
+import { DEFAULT_PROXIES, ProxyConfig, withProxyFlags } from '@/lib/settings';
+
+const formatHealth = (health?: ProxyHealth) => {
+  if (!health) return 'Not used yet';
+  const attempts = health.successes + health.failures;
+  const successRate = Math.round((health.successes / attempts) * 100);
+  const latency = health.lastLatencyMs !== undefined ? ` · last ${health.lastLatencyMs} ms` : '';
+  return `${successRate}% of ${attempts} requests succeeded${latency}`;
+};
+
+const SettingsDialog = () => {
+  const { settings, updateSettings } = useSettings();
+  const [health, setHealth] = useState<Record<string, ProxyHealth>>({});
+  const [newLabel, setNewLabel] = useState('');
+  const [newTemplate, setNewTemplate] = useState('');
+
+  const setProxies = (proxies: ProxyConfig[]) => updateSettings({ proxies });
+
+  const updateProxy = (id: string, changes: Partial<ProxyConfig>) => {
+    setProxies(settings.proxies.map(proxy => proxy.id === id ? { ...proxy, ...changes } : proxy));
+  };
+
+  const moveProxy = (index: number, offset: number) => {
+    const proxies = [...settings.proxies];
+    const [proxy] = proxies.splice(index, 1);
+    proxies.splice(index + offset, 0, proxy);
+    setProxies(proxies);
+  };
+
+  const handleAddProxy = () => {
+    if (!newTemplate.includes('{url}')) {
+      toast({
+        title: "Error",
+        description: "The proxy URL must contain {url} where the target URL goes",
+        variant: "destructive",
+      });
+      return;
+    }
+    setProxies([
+      ...settings.proxies,
+      withProxyFlags({ id: `custom-${Date.now()}`, label: newLabel.trim() || newTemplate, template: newTemplate.trim(), enabled: true }),
+    ]);
+    setNewLabel('');
+    setNewTemplate('');
+  };
+
+  const handleResetStats = () => {
+    resetProxyHealth();
+    setHealth({});
+  };
+
+  return (
+    <Dialog onOpenChange={open => open && setHealth(getProxyHealth())}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Settings">
+          <SettingsIcon className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Requests to wordpress.org go through these CORS proxies, tried from top to bottom.
+            Run <code>npm run proxy</code> (or use the dev server) to keep traffic on a first-party proxy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {settings.proxies.map((proxy, index) => (
+            <div key={proxy.id} className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 bg-gray-50">
+              <Switch
+                checked={proxy.enabled}
+                onCheckedChange={enabled => updateProxy(proxy.id, { enabled })}
+                title={proxy.enabled ? "Disable proxy" : "Enable proxy"}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-sm text-black">
+                  {proxy.label}
+                  {proxy.marksUpstreamStatus && (
+                    <span className="ml-2 text-xs font-normal text-gray-500" title="Forwards conditional requests and reports wordpress.org's own status">
+                      first-party
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 font-mono truncate">{proxy.template}</div>
+                <div className="text-xs text-gray-500">
+                  {formatHealth(health[proxy.id])}
+                  {health[proxy.id]?.lastError && (
+                    <span className="text-red-600"> · last error: {health[proxy.id].lastError}</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveProxy(index, -1)} title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" disabled={index === settings.proxies.length - 1} onClick={() => moveProxy(index, 1)} title="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setProxies(settings.proxies.filter(p => p.id !== proxy.id))}
+                  className="hover:bg-red-50 hover:text-red-600"
+                  title="Remove proxy"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-[1fr_2fr_auto] gap-2 items-end">
+          <div>
+            <Label htmlFor="proxy-label" className="text-xs">Name</Label>
+            <Input id="proxy-label" value={newLabel} onChange={e => setNewLabel(e.target.value)} placeholder="Company proxy" />
+          </div>
+          <div>
+            <Label htmlFor="proxy-template" className="text-xs">Proxy URL</Label>
+            <Input
+              id="proxy-template"
+              value={newTemplate}
+              onChange={e => setNewTemplate(e.target.value)}
+              placeholder="http://localhost:8787/wporg-proxy?url={url}"
+            />
+          </div>
+          <Button onClick={handleAddProxy} className="bg-black hover:bg-gray-800 text-white">
+            <Plus className="w-4 h-4" />
+            Add
+          </Button>
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setProxies(DEFAULT_PROXIES)}>
+            Restore default proxies
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleResetStats}>
+            Reset health stats
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 pt-4 border-t border-gray-200">
+          <div>
+            <Label htmlFor="fetch-concurrency">Concurrent fetches</Label>
+            <div className="text-xs text-gray-500">How many plugins are refreshed at the same time (1-6)</div>
+          </div>
+          <Input
+            id="fetch-concurrency"
+            type="number"
+            min={1}
+            max={6}
+            value={settings.fetchConcurrency}
+            onChange={e => {
+              const value = Number(e.target.value);
+              if (Number.isInteger(value) && value >= 1 && value <= 6) {
+                updateSettings({ fetchConcurrency: value });
+              }
+            }}
+            className="w-20"
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label>Auto-refresh</Label>
+            <div className="text-xs text-gray-500">Checked in the background while this tab is visible; plugins can override it</div>
+          </div>
+          <Select
+            value={String(settings.autoRefreshMinutes)}
+            onValueChange={value => updateSettings({ autoRefreshMinutes: Number(value) })}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REFRESH_INTERVAL_OPTIONS.map(option => (
+                <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
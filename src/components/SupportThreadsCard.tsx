@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, CircleDot, ExternalLink, LifeBuoy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStoreRecords } from '@/hooks/use-store-records';
+import { loadSupportThreads } from '@/lib/db';
+import { PluginData, SupportThread } from '@/lib/schema';
+import { MAX_SUPPORT_STATUS_PAGES, isStaleUnresolved } from '@/lib/support';
+import { localeLabel } from '@/lib/wporg';
+
+interface SupportThreadsCardProps {
+  plugin: PluginData;
+}
+
+type StatusFilter = 'all' | 'unresolved' | 'resolved' | 'stale';
+
+const DEFAULT_STALE_DAYS = 7;
+// A status older than this is shown with its age
+const STATUS_AGE_NOTICE_MS = 24 * 60 * 60_000;
+
+const StatusBadge = ({ resolved }: { resolved: boolean | null }) => {
+  if (resolved === null) {
+    return <Badge variant="outline" className="border-gray-300 text-gray-500">Status unknown</Badge>;
+  }
+  return resolved ? (
+    <Badge variant="outline" className="border-green-300 text-green-700">
+      <CheckCircle2 className="w-3 h-3 mr-1" />
+      Resolved
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="border-orange-300 text-orange-700">
+      <CircleDot className="w-3 h-3 mr-1" />
+      Unresolved
+    </Badge>
+  );
+};
+
+const ThreadRow = ({ thread }: { thread: SupportThread }) => (
+  <div className="border rounded-lg p-3 bg-white border-gray-200">
+    <div className="flex items-start justify-between gap-2">
+      <div className="font-medium text-sm text-black">{thread.title || 'Untitled topic'}</div>
+      <div className="flex items-center gap-1 shrink-0">
+        {thread.locale && (
+          <Badge variant="outline" className="border-blue-200 text-blue-700">{localeLabel(thread.locale)}</Badge>
+        )}
+        <StatusBadge resolved={thread.resolved} />
+        {thread.url && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => window.open(thread.url, '_blank')}
+            className="hover:bg-gray-100 hover:text-black"
+            title="View topic"
+          >
+            <ExternalLink className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+    <div className="text-xs text-gray-500 mt-1">
+      by {thread.author} · opened {thread.dateEstimated ? 'about ' : ''}
+      {formatDistanceToNow(new Date(thread.postedAt), { addSuffix: true })}
+      {thread.replyCount !== undefined && ` · ${thread.replyCount} ${thread.replyCount === 1 ? 'reply' : 'replies'}`}
+      {thread.lastActivityAt && ` · last activity ${formatDistanceToNow(new Date(thread.lastActivityAt), { addSuffix: true })}`}
+      {thread.statusCheckedAt && Date.now() - new Date(thread.statusCheckedAt).getTime() > STATUS_AGE_NOTICE_MS &&
+        ` · status as of ${formatDistanceToNow(new Date(thread.statusCheckedAt), { addSuffix: true })}`}
+    </div>
+  </div>
+);
+
+// The plugin's general support forum, read on every refresh, so open problems
+// are visible before they turn into reviews
+const SupportThreadsCard = ({ plugin }: SupportThreadsCardProps) => {
+  const { records: threads, isLoading } = useStoreRecords(loadSupportThreads, plugin.slug, plugin.lastUpdated);
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [staleDays, setStaleDays] = useState(DEFAULT_STALE_DAYS);
+  const [search, setSearch] = useState('');
+
+  const now = Date.now();
+  const staleCount = threads.filter(thread => isStaleUnresolved(thread, staleDays, now)).length;
+  const query = search.trim().toLowerCase();
+
+  const visible = threads
+    .filter(thread => {
+      if (status === 'unresolved') return thread.resolved === false;
+      if (status === 'resolved') return thread.resolved === true;
+      if (status === 'stale') return isStaleUnresolved(thread, staleDays, now);
+      return true;
+    })
+    .filter(thread => !query || `${thread.title} ${thread.author}`.toLowerCase().includes(query))
+    // The stale view puts the longest-waiting topics first
+    .sort((a, b) => status === 'stale'
+      ? a.postedAt.localeCompare(b.postedAt)
+      : b.postedAt.localeCompare(a.postedAt));
+
+  return (
+    <Card className="shadow-lg border border-gray-200 mt-6">
+      <CardHeader className="bg-white border-b border-gray-200 rounded-t-lg">
+        <CardTitle className="flex items-center justify-between text-black">
+          <span className="flex items-center gap-2">
+            <LifeBuoy className="w-5 h-5" />
+            Support Threads ({visible.length})
+          </span>
+          {staleCount > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setStatus('stale')} className="text-orange-700">
+              {staleCount} unresolved for over {staleDays} days
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label>Status</Label>
+            <Select value={status} onValueChange={value => setStatus(value as StatusFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All topics</SelectItem>
+                <SelectItem value="unresolved">Unresolved</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="stale">Unresolved older than…</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="stale-days">Older than (days)</Label>
+            <Input
+              id="stale-days"
+              type="number"
+              min={1}
+              value={staleDays}
+              onChange={(e) => setStaleDays(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="support-search">Search</Label>
+            <Input
+              id="support-search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Title or author"
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Statuses are read from the first {MAX_SUPPORT_STATUS_PAGES} listing pages of each forum. Topics older than
+          that keep the status they last had there.
+        </p>
+
+        {visible.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">
+            {isLoading
+              ? "Loading support threads..."
+              : threads.length === 0
+                ? "No support threads yet. They are fetched with the next refresh."
+                : "No support threads match your filter criteria"}
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {visible.map(thread => <ThreadRow key={thread.id} thread={thread} />)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SupportThreadsCard;
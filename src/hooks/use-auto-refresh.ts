@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import { FetchJob } from '@/hooks/use-fetch-queue';
+import { RefreshAttempt, nextRefreshDue } from '@/lib/schedule';
+import { PluginData } from '@/lib/schema';
+
+interface FailureCount {
+  count: number;
+  lastFailedAt: string;
+}
+
+// Failures in a row, including a failed job that hasn't been counted yet
+const countFailures = (job: FetchJob, counted?: FailureCount) =>
+  counted?.lastFailedAt === job.updatedAt ? counted.count : (counted?.count || 0) + 1;
+
+// How often due plugins are checked while the tab is visible
+const CHECK_INTERVAL_MS = 30_000;
+
+// Queues plugins whose refresh interval has passed. Polling stops while the tab
+// is hidden and catches up as soon as it becomes visible again; failed
+// refreshes back off until one succeeds.
+export function useAutoRefresh(
+  plugins: PluginData[],
+  jobs: Record<string, FetchJob>,
+  enqueue: (slugs: string[]) => void,
+  globalMinutes: number,
+  enabled: boolean,
+) {
+  const [now, setNow] = useState(() => Date.now());
+  const [visible, setVisible] = useState(() => document.visibilityState === 'visible');
+  const [failures, setFailures] = useState<Record<string, FailureCount>>({});
+  const enqueueRef = useRef(enqueue);
+  enqueueRef.current = enqueue;
+
+  // Count failed fetches in a row per plugin; a successful one clears the count
+  useEffect(() => {
+    setFailures(current => {
+      let changed = false;
+      const next = { ...current };
+      Object.values(jobs).forEach(job => {
+        if (job.status === 'failed' && next[job.slug]?.lastFailedAt !== job.updatedAt) {
+          next[job.slug] = { count: countFailures(job, next[job.slug]), lastFailedAt: job.updatedAt };
+          changed = true;
+        } else if (job.status === 'done' && next[job.slug]) {
+          delete next[job.slug];
+          changed = true;
+        }
+      });
+      return changed ? next : current;
+    });
+  }, [jobs]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const start = () => {
+      setNow(Date.now());
+      timer = setInterval(() => setNow(Date.now()), CHECK_INTERVAL_MS);
+    };
+    const handleVisibilityChange = () => {
+      clearInterval(timer);
+      setVisible(document.visibilityState === 'visible');
+      if (document.visibilityState === 'visible') start();
+    };
+
+    if (document.visibilityState === 'visible') start();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  // Failed and cancelled refreshes push the next one back
+  const lastAttempt = (slug: string): RefreshAttempt | undefined => {
+    const job = jobs[slug];
+    if (job?.status === 'failed') return { at: job.updatedAt, failures: countFailures(job, failures[slug]) };
+    if (job?.status === 'cancelled') return { at: job.updatedAt, failures: failures[slug]?.count || 0 };
+    return undefined;
+  };
+
+  const nextRefresh: Record<string, Date | null> = {};
+  plugins.forEach(plugin => {
+    nextRefresh[plugin.slug] = nextRefreshDue(plugin, globalMinutes, lastAttempt(plugin.slug));
+  });
+
+  const dueSlugs = plugins
+    .filter(plugin => {
+      const due = nextRefresh[plugin.slug];
+      const status = jobs[plugin.slug]?.status;
+      return due && due.getTime() <= now && status !== 'queued' && status !== 'fetching';
+    })
+    .map(plugin => plugin.slug);
+  const dueKey = dueSlugs.join(',');
+
+  useEffect(() => {
+    if (!enabled || !visible || !dueKey) return;
+    console.log('Auto-refreshing:', dueKey);
+    enqueueRef.current(dueKey.split(','));
+  }, [dueKey, enabled, visible]);
+
+  return { nextRefresh };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { BackfillCheckpoint, runBackfill } from '@/lib/backfill';
+import { loadBackfillCheckpoints } from '@/lib/db';
+import { ItemType, Review } from '@/lib/schema';
+
+// Tracks full-history backfill jobs per plugin. Jobs that were running when the
+// tab closed come back as paused and continue from their checkpoint.
+export function useBackfill(
+  onReviews: (slug: string, reviews: Review[]) => void,
+  onRemoved: (slug: string, ids: string[]) => void,
+  getStoredReviews: (slug: string) => Review[],
+) {
+  const [jobs, setJobs] = useState<Record<string, BackfillCheckpoint>>({});
+  const controllers = useRef(new Map<string, AbortController>());
+  const callbacks = useRef({ onReviews, onRemoved, getStoredReviews });
+  callbacks.current = { onReviews, onRemoved, getStoredReviews };
+
+  useEffect(() => {
+    loadBackfillCheckpoints()
+      .then(checkpoints => {
+        const restored: Record<string, BackfillCheckpoint> = {};
+        checkpoints.forEach(checkpoint => {
+          restored[checkpoint.slug] = checkpoint.status === 'running'
+            ? { ...checkpoint, status: 'paused' }
+            : checkpoint;
+        });
+        setJobs(restored);
+      })
+      .catch(error => console.error('Failed to load backfill checkpoints:', error));
+
+    const activeControllers = controllers.current;
+    return () => activeControllers.forEach(controller => controller.abort());
+  }, []);
+
+  const startBackfill = useCallback(async (slug: string, type: ItemType) => {
+    if (controllers.current.has(slug)) return;
+
+    const controller = new AbortController();
+    controllers.current.set(slug, controller);
+
+    try {
+      const result = await runBackfill(slug, jobs[slug], {
+        type,
+        signal: controller.signal,
+        onPage: reviews => callbacks.current.onReviews(slug, reviews),
+        onProgress: checkpoint => setJobs(current => ({ ...current, [slug]: checkpoint })),
+        getStoredReviews: () => callbacks.current.getStoredReviews(slug),
+        onRemoved: ids => callbacks.current.onRemoved(slug, ids),
+      });
+
+      if (result.status === 'done') {
+        toast({
+          title: "Backfill complete",
+          description: `Fetched ${result.fetchedReviews} reviews from ${result.totalPages} pages for ${slug}`,
+        });
+      } else if (result.status === 'failed') {
+        toast({
+          title: "Backfill stopped",
+          description: `Page ${result.nextPage} of ${slug} failed: ${result.error}. Resume to continue from there.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error(`Backfill for ${slug} failed:`, error);
+    } finally {
+      controllers.current.delete(slug);
+    }
+  }, [jobs]);
+
+  const pauseBackfill = useCallback((slug: string) => {
+    controllers.current.get(slug)?.abort();
+  }, []);
+
+  return { backfillJobs: jobs, startBackfill, pauseBackfill };
+}
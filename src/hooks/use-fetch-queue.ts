@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type FetchJobStatus = 'queued' | 'fetching' | 'done' | 'failed' | 'cancelled';
+
+export interface FetchJob {
+  slug: string;
+  status: FetchJobStatus;
+  error?: string;
+  updatedAt: string;
+}
+
+type RunJob = (slug: string, signal: AbortSignal) => Promise<void>;
+
+// Runs review fetches for several plugins at once, at most `concurrency` at a
+// time. Each plugin has its own status and can be cancelled on its own.
+export function useFetchQueue(runJob: RunJob, concurrency: number) {
+  const [jobs, setJobs] = useState<Record<string, FetchJob>>({});
+  const pending = useRef<string[]>([]);
+  const active = useRef(new Map<string, AbortController>());
+  const runJobRef = useRef(runJob);
+  runJobRef.current = runJob;
+  const concurrencyRef = useRef(concurrency);
+  concurrencyRef.current = concurrency;
+
+  const setStatus = useCallback((slug: string, status: FetchJobStatus, error?: string) => {
+    setJobs(current => ({ ...current, [slug]: { slug, status, error, updatedAt: new Date().toISOString() } }));
+  }, []);
+
+  const pump = useCallback(() => {
+    while (active.current.size < concurrencyRef.current && pending.current.length > 0) {
+      const slug = pending.current.shift();
+      const controller = new AbortController();
+      active.current.set(slug, controller);
+      setStatus(slug, 'fetching');
+
+      runJobRef.current(slug, controller.signal)
+        .then(() => setStatus(slug, controller.signal.aborted ? 'cancelled' : 'done'))
+        .catch(error => {
+          if (controller.signal.aborted) {
+            setStatus(slug, 'cancelled');
+          } else {
+            setStatus(slug, 'failed', error instanceof Error ? error.message : 'Failed to fetch reviews');
+          }
+        })
+        .finally(() => {
+          active.current.delete(slug);
+          pump();
+        });
+    }
+  }, [setStatus]);
+
+  // Picks up extra capacity when the concurrency setting goes up
+  useEffect(() => {
+    pump();
+  }, [concurrency, pump]);
+
+  useEffect(() => {
+    const activeControllers = active.current;
+    return () => activeControllers.forEach(controller => controller.abort());
+  }, []);
+
+  const enqueue = useCallback((slugs: string | string[]) => {
+    (Array.isArray(slugs) ? slugs : [slugs]).forEach(slug => {
+      if (active.current.has(slug) || pending.current.includes(slug)) return;
+      pending.current.push(slug);
+      setStatus(slug, 'queued');
+    });
+    pump();
+  }, [pump, setStatus]);
+
+  const cancel = useCallback((slug: string) => {
+    if (pending.current.includes(slug)) {
+      pending.current = pending.current.filter(queued => queued !== slug);
+      setStatus(slug, 'cancelled');
+      return;
+    }
+    active.current.get(slug)?.abort();
+  }, [setStatus]);
+
+  return { jobs, enqueue, cancel };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { PluginSearchResult, searchPlugins } from '@/lib/plugin-info';
+import { PluginSearchField } from '@/lib/wporg';
+
+const SEARCH_DELAY_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+// Type-ahead search of the plugin directory. Waits for typing to pause and
+// cancels the request for an older query when a newer one starts.
+export function usePluginSearch(query: string, by: PluginSearchField) {
+  const [results, setResults] = useState<PluginSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      searchPlugins(trimmed, by, controller.signal)
+        .then(found => {
+          setResults(found);
+          setError(null);
+        })
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          console.warn(`Plugin search for "${trimmed}" failed:`, error);
+          setError(error instanceof Error ? error.message : 'Unknown error');
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed, by]);
+
+  return { results, isSearching, error, minQueryLength: MIN_QUERY_LENGTH };
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { StoredDataState, commitStoredData, readStoredData, savePluginChanges } from '@/lib/db';
+import { UnsupportedVersionError } from '@/lib/migrations';
+import { PluginData } from '@/lib/schema';
+
+// Plugin list state backed by IndexedDB. Changes are written incrementally and
+// in order; nothing is written until the stored data has been loaded and, if
+// the startup check found problems, the user has confirmed the repairs.
+export function usePluginStore() {
+  const [plugins, setPlugins] = useState<PluginData[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [recovery, setRecovery] = useState<StoredDataState | null>(null);
+  const persisted = useRef<PluginData[]>([]);
+  const writeQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const handleLoadError = (error: unknown) => {
+    console.error('Failed to load stored plugins:', error);
+    toast({
+      title: "Error",
+      description: error instanceof UnsupportedVersionError
+        ? error.message
+        : "Could not open the review database. Changes will not be saved.",
+      variant: "destructive",
+    });
+  };
+
+  const finishLoading = async (state: StoredDataState) => {
+    await commitStoredData(state);
+    persisted.current = state.report.plugins;
+    setPlugins(state.report.plugins);
+    setIsLoaded(true);
+  };
+
+  useEffect(() => {
+    readStoredData()
+      .then(state => {
+        if (state.report.issues.length > 0) {
+          setRecovery(state);
+          return;
+        }
+        return finishLoading(state);
+      })
+      .catch(handleLoadError);
+  }, []);
+
+  const confirmRecovery = useCallback(() => {
+    if (!recovery) return;
+    setRecovery(null);
+    finishLoading(recovery)
+      .then(() => {
+        toast({
+          title: "Data repaired",
+          description: `Loaded ${recovery.report.plugins.length} plugins, ${recovery.report.quarantined.length} records set aside`,
+        });
+      })
+      .catch(handleLoadError);
+  }, [recovery]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const previous = persisted.current;
+    persisted.current = plugins;
+    writeQueue.current = writeQueue.current
+      .then(() => savePluginChanges(previous, plugins))
+      .catch(error => {
+        console.error('Failed to save plugins:', error);
+        toast({
+          title: "Error",
+          description: "Failed to save plugin data",
+          variant: "destructive",
+        });
+      });
+  }, [plugins, isLoaded]);
+
+  return { plugins, setPlugins, isLoaded, recovery, confirmRecovery };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+
+// Loads a plugin's records from one of the IndexedDB stores; `version` reloads
+// them after a refresh. `loader` should be a module-level function such as
+// loadSnapshots, so it stays the same between renders.
+export function useStoreRecords<T>(loader: (slug: string) => Promise<T[]>, slug: string, version?: string) {
+  const [records, setRecords] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    loader(slug)
+      .then(result => {
+        if (!cancelled) setRecords(result);
+      })
+      .catch(error => console.error(`Failed to load stored records for ${slug}:`, error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loader, slug, version]);
+
+  return { records, isLoading };
+}
@@ -0,0 +1,111 @@
+import { saveBackfillCheckpoint } from '@/lib/db';
+import { confirmRemovedReviews, findMissingReviews } from '@/lib/reconcile';
+import { fetchReviewPage } from '@/lib/review-pages';
+import { ItemType, Review } from '@/lib/schema';
+
+// Full-history backfill: walks every review page of a plugin, checkpointing
+// after each page so a closed tab or failed page can resume where it stopped.
+// Failed pages are retried by the HTTP client before the backfill gives up.
+
+export type BackfillStatus = 'running' | 'paused' | 'failed' | 'done';
+
+export interface BackfillCheckpoint {
+  slug: string;
+  status: BackfillStatus;
+  // Next page to fetch
+  nextPage: number;
+  totalPages: number | null;
+  fetchedReviews: number;
+  // Ids seen so far in this run, to find stored reviews that no page returned
+  seenIds?: string[];
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+interface BackfillOptions {
+  type: ItemType;
+  signal: AbortSignal;
+  onPage: (reviews: Review[]) => void;
+  onProgress: (checkpoint: BackfillCheckpoint) => void;
+  // Reconciliation at the end of a full walk
+  getStoredReviews: () => Review[];
+  onRemoved: (ids: string[]) => void;
+}
+
+// If most stored reviews went unseen, the pages were probably misparsed rather than emptied
+const MAX_MISSING_SHARE = 0.5;
+// Every candidate is checked, but a full walk shouldn't turn into thousands of requests
+const MAX_BACKFILL_CHECKS = 100;
+
+// Where to pick up from a stored checkpoint. The page before nextPage is fetched
+// again because its reviews may not have been written when the tab closed;
+// upserting by review id makes the repeat harmless.
+const resumePage = (checkpoint: BackfillCheckpoint | undefined) =>
+  checkpoint && checkpoint.status !== 'done' ? Math.max(1, checkpoint.nextPage - 1) : 1;
+
+export const runBackfill = async (
+  slug: string,
+  previous: BackfillCheckpoint | undefined,
+  { type, signal, onPage, onProgress, getStoredReviews, onRemoved }: BackfillOptions
+): Promise<BackfillCheckpoint> => {
+  const resuming = previous && previous.status !== 'done';
+  let checkpoint: BackfillCheckpoint = {
+    slug,
+    status: 'running',
+    nextPage: resumePage(previous),
+    totalPages: resuming ? previous.totalPages : null,
+    fetchedReviews: resuming ? previous.fetchedReviews : 0,
+    seenIds: resuming ? previous.seenIds || [] : [],
+    startedAt: resuming ? previous.startedAt : new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const update = async (changes: Partial<BackfillCheckpoint>) => {
+    checkpoint = { ...checkpoint, ...changes, updatedAt: new Date().toISOString() };
+    await saveBackfillCheckpoint(checkpoint);
+    onProgress(checkpoint);
+    return checkpoint;
+  };
+
+  await update({ error: undefined });
+
+  try {
+    while (checkpoint.totalPages === null || checkpoint.nextPage <= checkpoint.totalPages) {
+      const page = checkpoint.nextPage;
+      const result = await fetchReviewPage(slug, type, page, signal);
+
+      onPage(result.reviews);
+      await update({
+        nextPage: page + 1,
+        totalPages: result.totalPages ?? checkpoint.totalPages ?? page,
+        fetchedReviews: checkpoint.fetchedReviews + result.reviews.length,
+        seenIds: [...checkpoint.seenIds, ...result.reviews.map(review => review.id)],
+      });
+
+      // An empty page means we've walked past the end. Pacing between pages
+      // is left to the HTTP client's per-host budget.
+      if (result.reviews.length === 0) break;
+    }
+
+    // The walk only covers the main forum, so locale reviews aren't expected on its pages
+    const stored = getStoredReviews().filter(review => !review.locale);
+    const missing = findMissingReviews(stored, new Set(checkpoint.seenIds));
+    if (missing.length > stored.length * MAX_MISSING_SHARE) {
+      console.warn(`Skipping removal check for ${slug}: ${missing.length} of ${stored.length} stored reviews were not seen`);
+    } else if (missing.length > 0) {
+      onRemoved(await confirmRemovedReviews(missing, signal, MAX_BACKFILL_CHECKS));
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      return update({ status: 'paused' });
+    }
+    console.error(`Backfill for ${slug} stopped at page ${checkpoint.nextPage}:`, error);
+    return update({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to fetch review page',
+    });
+  }
+
+  return update({ status: 'done', seenIds: [] });
+};
@@ -0,0 +1,330 @@
+import { BackfillCheckpoint } from '@/lib/backfill';
+import { CachedResponse } from '@/lib/http-cache';
+import { IntegrityReport, checkIntegrity, quarantineEverything } from '@/lib/integrity';
+import { RawPlugin, SCHEMA_VERSION, UnsupportedVersionError, migratePlugins, readPayload } from '@/lib/migrations';
+import { PluginData, Review, SupportThread, itemType } from '@/lib/schema';
+import { MetricSnapshot } from '@/lib/snapshots';
+import { reviewFeedUrl, supportFeedUrl } from '@/lib/wporg';
+
+// IndexedDB persistence. Plugins and reviews live in separate object stores so a
+// refresh only writes the records that actually changed.
+
+const DB_NAME = 'wordpress-plugin-reviews';
+const DB_VERSION = 6;
+
+export const LEGACY_STORAGE_KEY = 'wordpress-plugins';
+const LEGACY_MIGRATED_KEY = 'legacyStorageMigrated';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+const PLUGINS_STORE = 'plugins';
+const REVIEWS_STORE = 'reviews';
+const META_STORE = 'meta';
+const QUARANTINE_STORE = 'quarantine';
+const BACKFILL_STORE = 'backfill';
+const HTTP_CACHE_STORE = 'httpCache';
+const SNAPSHOTS_STORE = 'snapshots';
+const SUPPORT_STORE = 'supportThreads';
+
+type StoredPlugin = Omit<PluginData, 'reviews'>;
+type StoredReview = Review & { slug: string };
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+export const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PLUGINS_STORE)) {
+          db.createObjectStore(PLUGINS_STORE, { keyPath: 'slug' });
+        }
+        if (!db.objectStoreNames.contains(REVIEWS_STORE)) {
+          const reviews = db.createObjectStore(REVIEWS_STORE, { keyPath: ['slug', 'id'] });
+          reviews.createIndex('slug', 'slug');
+          reviews.createIndex('date', 'date');
+          reviews.createIndex('rating', 'rating');
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+          db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(BACKFILL_STORE)) {
+          db.createObjectStore(BACKFILL_STORE, { keyPath: 'slug' });
+        }
+        if (!db.objectStoreNames.contains(HTTP_CACHE_STORE)) {
+          db.createObjectStore(HTTP_CACHE_STORE, { keyPath: 'url' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: ['slug', 'takenAt'] });
+          snapshots.createIndex('slug', 'slug');
+        }
+        if (!db.objectStoreNames.contains(SUPPORT_STORE)) {
+          const threads = db.createObjectStore(SUPPORT_STORE, { keyPath: ['slug', 'id'] });
+          threads.createIndex('slug', 'slug');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const toStoredPlugin = ({ reviews, ...plugin }: PluginData): StoredPlugin => plugin;
+
+const putPlugin = (transaction: IDBTransaction, plugin: PluginData) => {
+  transaction.objectStore(PLUGINS_STORE).put(toStoredPlugin(plugin));
+};
+
+const putReview = (transaction: IDBTransaction, slug: string, review: Review) => {
+  transaction.objectStore(REVIEWS_STORE).put({ ...review, slug } as StoredReview);
+};
+
+const deleteBySlug = (transaction: IDBTransaction, storeName: string, slug: string) => {
+  const request = transaction.objectStore(storeName).index('slug').openCursor(IDBKeyRange.only(slug));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+};
+
+const writeAllPlugins = (transaction: IDBTransaction, plugins: PluginData[]) => {
+  plugins.forEach(plugin => {
+    putPlugin(transaction, plugin);
+    plugin.reviews.forEach(review => putReview(transaction, plugin.slug, review));
+  });
+};
+
+// Reads every stored record and joins reviews back onto their plugins, unvalidated
+const readRawPlugins = async (db: IDBDatabase): Promise<RawPlugin[]> => {
+  const transaction = db.transaction([PLUGINS_STORE, REVIEWS_STORE], 'readonly');
+  const [storedPlugins, storedReviews] = await Promise.all([
+    requestToPromise(transaction.objectStore(PLUGINS_STORE).getAll() as IDBRequest<StoredPlugin[]>),
+    requestToPromise(transaction.objectStore(REVIEWS_STORE).getAll() as IDBRequest<StoredReview[]>),
+  ]);
+
+  const reviewsBySlug = new Map<string, Review[]>();
+  storedReviews.forEach(({ slug, ...review }) => {
+    if (!reviewsBySlug.has(slug)) reviewsBySlug.set(slug, []);
+    reviewsBySlug.get(slug).push(review);
+  });
+
+  return storedPlugins.map(plugin => ({ ...plugin, reviews: reviewsBySlug.get(plugin.slug) || [] }));
+};
+
+const getMeta = (db: IDBDatabase, key: string) =>
+  requestToPromise(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key));
+
+export interface StoredDataState {
+  report: IntegrityReport;
+  // Everything that was read, exactly as stored, so it can be downloaded before repairs are saved
+  rawPayload: string;
+  // True when a legacy migration, version upgrade or repair still has to be written
+  needsWrite: boolean;
+  fromLegacyStorage: boolean;
+}
+
+// Parses the old localStorage blob without trusting it
+const readLegacyStorage = (legacyData: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(legacyData);
+  } catch (error) {
+    return quarantineEverything('Stored data is not valid JSON', legacyData);
+  }
+
+  try {
+    const payload = readPayload(parsed);
+    return checkIntegrity(migratePlugins(payload.plugins, payload.version));
+  } catch (error) {
+    if (error instanceof UnsupportedVersionError) throw error;
+    return quarantineEverything(error instanceof Error ? error.message : 'Invalid data format', parsed);
+  }
+};
+
+// Reads and checks stored data without writing anything. Throws
+// UnsupportedVersionError for data written by a newer app version.
+export const readStoredData = async (): Promise<StoredDataState> => {
+  const db = await openDatabase();
+  const legacyMigrated = await getMeta(db, LEGACY_MIGRATED_KEY);
+
+  if (!legacyMigrated) {
+    const legacyData = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return {
+      report: legacyData ? readLegacyStorage(legacyData) : checkIntegrity([]),
+      rawPayload: legacyData || '[]',
+      needsWrite: true,
+      fromLegacyStorage: true,
+    };
+  }
+
+  const version = ((await getMeta(db, SCHEMA_VERSION_KEY)) as number | undefined) ?? 0;
+  const rawPlugins = await readRawPlugins(db);
+  const report = checkIntegrity(migratePlugins(rawPlugins, version));
+
+  return {
+    report,
+    rawPayload: JSON.stringify({ version, plugins: rawPlugins }, null, 2),
+    needsWrite: version < SCHEMA_VERSION || report.issues.length > 0,
+    fromLegacyStorage: false,
+  };
+};
+
+// Saves the checked data: quarantined records are kept aside, the rest replaces what was stored
+export const commitStoredData = async (state: StoredDataState) => {
+  if (!state.needsWrite) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([PLUGINS_STORE, REVIEWS_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+  const committedAt = new Date().toISOString();
+
+  transaction.objectStore(PLUGINS_STORE).clear();
+  transaction.objectStore(REVIEWS_STORE).clear();
+  writeAllPlugins(transaction, state.report.plugins);
+  state.report.quarantined.forEach(record => {
+    transaction.objectStore(QUARANTINE_STORE).add({ ...record, quarantinedAt: committedAt });
+  });
+  transaction.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  transaction.objectStore(META_STORE).put(committedAt, LEGACY_MIGRATED_KEY);
+  await transactionDone(transaction);
+
+  if (state.fromLegacyStorage && localStorage.getItem(LEGACY_STORAGE_KEY)) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log('Migrated plugin data from localStorage to IndexedDB');
+  }
+};
+
+// Writes only what differs between two snapshots of the plugin list. Unchanged
+// plugins and reviews are detected by reference, as state updates are immutable.
+export const savePluginChanges = async (previous: PluginData[], next: PluginData[]) => {
+  if (previous === next) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [PLUGINS_STORE, REVIEWS_STORE, BACKFILL_STORE, HTTP_CACHE_STORE, SNAPSHOTS_STORE, SUPPORT_STORE],
+    'readwrite'
+  );
+  const previousBySlug = new Map(previous.map(plugin => [plugin.slug, plugin]));
+  const nextSlugs = new Set(next.map(plugin => plugin.slug));
+
+  previous
+    .filter(plugin => !nextSlugs.has(plugin.slug))
+    .forEach(plugin => {
+      transaction.objectStore(PLUGINS_STORE).delete(plugin.slug);
+      transaction.objectStore(BACKFILL_STORE).delete(plugin.slug);
+      // Cached feeds of the main forum and every locale forum
+      [undefined, ...(plugin.locales || [])].forEach(locale => {
+        transaction.objectStore(HTTP_CACHE_STORE).delete(reviewFeedUrl(plugin.slug, itemType(plugin), locale));
+        transaction.objectStore(HTTP_CACHE_STORE).delete(supportFeedUrl(plugin.slug, itemType(plugin), locale));
+      });
+      deleteBySlug(transaction, REVIEWS_STORE, plugin.slug);
+      deleteBySlug(transaction, SNAPSHOTS_STORE, plugin.slug);
+      deleteBySlug(transaction, SUPPORT_STORE, plugin.slug);
+    });
+
+  next.forEach(plugin => {
+    const previousPlugin = previousBySlug.get(plugin.slug);
+    if (previousPlugin === plugin) return;
+
+    putPlugin(transaction, plugin);
+    if (previousPlugin?.reviews === plugin.reviews) return;
+
+    const previousReviews = new Map((previousPlugin?.reviews || []).map(review => [review.id, review]));
+    plugin.reviews.forEach(review => {
+      if (previousReviews.get(review.id) !== review) {
+        putReview(transaction, plugin.slug, review);
+      }
+      previousReviews.delete(review.id);
+    });
+    // Whatever is left was removed from the plugin
+    previousReviews.forEach(review => {
+      transaction.objectStore(REVIEWS_STORE).delete([plugin.slug, review.id]);
+    });
+  });
+
+  await transactionDone(transaction);
+};
+
+export const loadBackfillCheckpoints = async (): Promise<BackfillCheckpoint[]> => {
+  const db = await openDatabase();
+  return requestToPromise(
+    db.transaction(BACKFILL_STORE, 'readonly').objectStore(BACKFILL_STORE).getAll() as IDBRequest<BackfillCheckpoint[]>
+  );
+};
+
+export const saveBackfillCheckpoint = async (checkpoint: BackfillCheckpoint) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BACKFILL_STORE, 'readwrite');
+  transaction.objectStore(BACKFILL_STORE).put(checkpoint);
+  await transactionDone(transaction);
+};
+
+export const loadCachedResponse = async (url: string): Promise<CachedResponse | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(
+    db.transaction(HTTP_CACHE_STORE, 'readonly').objectStore(HTTP_CACHE_STORE).get(url) as IDBRequest<CachedResponse | undefined>
+  );
+};
+
+export const saveCachedResponse = async (entry: CachedResponse) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(HTTP_CACHE_STORE, 'readwrite');
+  transaction.objectStore(HTTP_CACHE_STORE).put(entry);
+  await transactionDone(transaction);
+};
+
+export const appendSnapshot = async (snapshot: MetricSnapshot) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  transaction.objectStore(SNAPSHOTS_STORE).put(snapshot);
+  await transactionDone(transaction);
+};
+
+// Oldest first, as the [slug, takenAt] key orders them
+export const loadSnapshots = async (slug: string): Promise<MetricSnapshot[]> => {
+  const db = await openDatabase();
+  const range = IDBKeyRange.bound([slug, ''], [slug, '\uffff']);
+  return requestToPromise(
+    db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).getAll(range) as IDBRequest<MetricSnapshot[]>
+  );
+};
+
+export const saveSupportThreads = async (threads: SupportThread[]) => {
+  if (threads.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(SUPPORT_STORE, 'readwrite');
+  threads.forEach(thread => transaction.objectStore(SUPPORT_STORE).put(thread));
+  await transactionDone(transaction);
+};
+
+export const loadSupportThreads = async (slug: string): Promise<SupportThread[]> => {
+  const db = await openDatabase();
+  return requestToPromise(
+    db.transaction(SUPPORT_STORE, 'readonly').objectStore(SUPPORT_STORE).index('slug').getAll(slug) as IDBRequest<SupportThread[]>
+  );
+};
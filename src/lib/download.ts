@@ -0,0 +1,10 @@
+// Triggers a browser download of the given text content
+export const downloadFile = (content: string, filename: string, type = 'application/json') => {
+  const dataBlob = new Blob([content], { type });
+  const url = URL.createObjectURL(dataBlob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
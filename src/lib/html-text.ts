@@ -0,0 +1,62 @@
+// Turns forum HTML (feed descriptions, topic posts) into plain text that keeps
+// its paragraphs, and decodes the entities wordpress.org escapes text with.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  deg: '°',
+  times: '×',
+};
+
+const fromCodePoint = (code: number, entity: string) => {
+  try {
+    return String.fromCodePoint(code);
+  } catch {
+    return entity;
+  }
+};
+
+// Decodes named and numeric entities; unknown ones are left as they are
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return fromCodePoint(code, entity);
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+// Block-level tags end a paragraph, <br> ends a line, list items get a bullet
+export const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '\n• ')
+      .replace(/<\/(p|div|blockquote|pre|ul|ol|h[1-6])>/gi, '\n\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
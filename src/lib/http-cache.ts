@@ -0,0 +1,59 @@
+import { loadCachedResponse, saveCachedResponse } from '@/lib/db';
+import { HttpRequestOptions, httpGet } from '@/lib/http';
+
+// Conditional GETs: the ETag/Last-Modified of the last response is stored with
+// its parsed value, so a 304 returns that value without downloading or parsing
+// the body again.
+
+export interface CachedResponse<T = unknown> {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  value: T;
+  // Version of the parser that produced `value`
+  parserVersion?: number;
+  storedAt: string;
+}
+
+// The cache is an optimisation; if IndexedDB fails the request just goes out unconditionally
+const readEntry = async <T>(url: string) => {
+  try {
+    return (await loadCachedResponse(url)) as CachedResponse<T> | undefined;
+  } catch (error) {
+    console.warn(`Failed to read cached response for ${url}:`, error);
+    return undefined;
+  }
+};
+
+export const cachedGet = async <T>(
+  url: string,
+  options: HttpRequestOptions,
+  parse: (response: Response) => Promise<T>,
+  // Bumped when the parser changes, so values parsed by an older one aren't reused
+  parserVersion = 1
+): Promise<T> => {
+  const cached = await readEntry<T>(url);
+  const entry = (cached?.parserVersion ?? 1) === parserVersion ? cached : undefined;
+  const headers: Record<string, string> = {};
+  if (entry?.etag) headers['If-None-Match'] = entry.etag;
+  if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+
+  let response = await httpGet(url, { ...options, headers: { ...options.headers, ...headers } });
+  if (response.status === 304) {
+    if (entry) {
+      console.log(`Not modified since ${entry.storedAt}: ${url}`);
+      return entry.value;
+    }
+    // Nothing to fall back on; ask again without conditions
+    response = await httpGet(url, options);
+  }
+
+  const value = await parse(response);
+  const etag = response.headers.get('ETag') || undefined;
+  const lastModified = response.headers.get('Last-Modified') || undefined;
+  if (etag || lastModified) {
+    saveCachedResponse({ url, etag, lastModified, value, parserVersion, storedAt: new Date().toISOString() })
+      .catch(error => console.warn(`Failed to cache response for ${url}:`, error));
+  }
+  return value;
+};
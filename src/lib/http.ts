@@ -0,0 +1,131 @@
+import { ProxyConfigError, UPSTREAM_STATUS_HEADER, fetchThroughProxies } from '@/lib/proxy';
+
+// Shared client for every wordpress.org request. Failed requests are retried
+// with exponential backoff and jitter, 429/503 responses honour Retry-After,
+// and each host has a request budget that callers wait on instead of sleeping.
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+// Longer Retry-After waits fail the request instead of blocking the queue
+const MAX_RETRY_AFTER_MS = 2 * 60_000;
+
+// At most this many requests per host within the window
+const HOST_BUDGET = { requests: 10, windowMs: 15_000 };
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+  // The status is wordpress.org's own, not one a proxy may have made up
+  upstream: boolean;
+
+  constructor(status: number, url: string, retryAfterMs?: number, upstream = false) {
+    super(`HTTP ${status} for ${url}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.upstream = upstream;
+  }
+}
+
+export interface HttpRequestOptions {
+  accept?: string;
+  signal?: AbortSignal;
+  retries?: number;
+  headers?: Record<string, string>;
+  // Skip the CORS proxies, for endpoints that send CORS headers (api.wordpress.org)
+  direct?: boolean;
+}
+
+const hostRequests = new Map<string, number[]>();
+// Set from Retry-After so every request to the host waits, not just the one that was told to
+const hostCooldowns = new Map<string, number>();
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = new Date(value).getTime();
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const backoffDelay = (attempt: number) =>
+  Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+const waitForBudget = async (host: string, signal?: AbortSignal) => {
+  for (;;) {
+    const now = Date.now();
+    const recent = (hostRequests.get(host) || []).filter(time => now - time < HOST_BUDGET.windowMs);
+    hostRequests.set(host, recent);
+
+    const cooldown = (hostCooldowns.get(host) || 0) - now;
+    const overBudget = recent.length >= HOST_BUDGET.requests ? recent[0] + HOST_BUDGET.windowMs - now : 0;
+    const wait = Math.max(cooldown, overBudget);
+    if (wait <= 0) {
+      recent.push(now);
+      return;
+    }
+    await sleep(wait, signal);
+  }
+};
+
+const isRetryable = (error: unknown) => {
+  if (error instanceof ProxyConfigError) return false;
+  return error instanceof HttpError ? RETRYABLE_STATUSES.has(error.status) : true;
+};
+
+const send = async (url: string, { accept = '*/*', signal, headers = {}, direct = false }: HttpRequestOptions) => {
+  const response = direct
+    ? await fetch(url, { method: 'GET', headers: { 'Accept': accept, ...headers }, signal })
+    : await fetchThroughProxies(url, accept, signal, headers);
+
+  // 304 answers a conditional request and is handled by the caller
+  if (!response.ok && response.status !== 304) {
+    const upstream = direct || response.headers.has(UPSTREAM_STATUS_HEADER);
+    throw new HttpError(response.status, url, parseRetryAfter(response.headers.get('Retry-After')), upstream);
+  }
+  return response;
+};
+
+// GETs a URL, returning the first OK (or 304) response or throwing the last error
+export const httpGet = async (url: string, options: HttpRequestOptions = {}): Promise<Response> => {
+  const { signal, retries = MAX_RETRIES } = options;
+  const host = new URL(url).host;
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForBudget(host, signal);
+    try {
+      return await send(url, options);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !isRetryable(error)) throw error;
+
+      if (error instanceof HttpError && error.retryAfterMs !== undefined) {
+        // The next attempt waits out the cooldown in waitForBudget
+        hostCooldowns.set(host, Date.now() + error.retryAfterMs);
+        if (error.retryAfterMs > MAX_RETRY_AFTER_MS) throw error;
+        console.warn(`Request to ${url} was rate limited, retrying in ${Math.round(error.retryAfterMs)} ms`);
+        continue;
+      }
+
+      const wait = backoffDelay(attempt);
+      console.warn(`Request to ${url} failed (attempt ${attempt + 1}), retrying in ${Math.round(wait)} ms:`, error);
+      await sleep(wait, signal);
+    }
+  }
+};
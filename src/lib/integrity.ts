@@ -0,0 +1,136 @@
+import { PluginData, Review, formatFieldError, pluginDataSchema, pluginMetadataSchema, reviewSchema, toFieldErrors } from '@/lib/schema';
+
+// Startup validation of stored data. Records that can be fixed are repaired,
+// anything else is set aside (quarantined) instead of being silently dropped.
+
+export interface IntegrityIssue {
+  path: string;
+  message: string;
+  action: 'repaired' | 'quarantined';
+}
+
+export interface QuarantinedRecord {
+  path: string;
+  reason: string;
+  record: unknown;
+}
+
+export interface IntegrityReport {
+  plugins: PluginData[];
+  issues: IntegrityIssue[];
+  quarantined: QuarantinedRecord[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isValidDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const latestReviewDate = (reviews: Review[]) => {
+  const timestamps = reviews.map(review => new Date(review.date).getTime());
+  return timestamps.length > 0 ? new Date(Math.max(...timestamps)).toISOString() : null;
+};
+
+const mergeDuplicate = (existing: PluginData, duplicate: PluginData): PluginData => {
+  const reviewIds = new Set(existing.reviews.map(review => review.id));
+  const reviews = [...existing.reviews, ...duplicate.reviews.filter(review => !reviewIds.has(review.id))];
+  const lastUpdated = new Date(existing.lastUpdated) >= new Date(duplicate.lastUpdated)
+    ? existing.lastUpdated
+    : duplicate.lastUpdated;
+
+  return {
+    ...existing,
+    name: existing.name || duplicate.name,
+    reviews,
+    lastUpdated,
+    totalReviews: reviews.length,
+  };
+};
+
+// Fatal problems with the payload as a whole (unparseable JSON, wrong shape)
+export const quarantineEverything = (reason: string, record: unknown): IntegrityReport => ({
+  plugins: [],
+  issues: [{ path: '', message: reason, action: 'quarantined' }],
+  quarantined: [{ path: '', reason, record }],
+});
+
+export const checkIntegrity = (rawPlugins: unknown[]): IntegrityReport => {
+  const issues: IntegrityIssue[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const pluginsBySlug = new Map<string, PluginData>();
+
+  const repaired = (path: string, message: string) => {
+    issues.push({ path, message, action: 'repaired' });
+  };
+  const quarantine = (path: string, reason: string, record: unknown) => {
+    issues.push({ path, message: reason, action: 'quarantined' });
+    quarantined.push({ path, reason, record });
+  };
+
+  rawPlugins.forEach((item, index) => {
+    const path = `[${index}]`;
+
+    if (!isRecord(item) || typeof item.slug !== 'string' || !item.slug.trim()) {
+      quarantine(path, 'Record has no plugin slug', item);
+      return;
+    }
+
+    const slug = item.slug.trim().toLowerCase();
+    if (slug !== item.slug) {
+      repaired(`${path}.slug`, `Normalized slug "${item.slug}" to "${slug}"`);
+    }
+
+    let rawReviews: unknown[] = [];
+    if (Array.isArray(item.reviews)) {
+      rawReviews = item.reviews;
+    } else {
+      repaired(`${path}.reviews`, 'Missing review list replaced with an empty list');
+    }
+
+    const reviews: Review[] = [];
+    rawReviews.forEach((rawReview, reviewIndex) => {
+      const result = reviewSchema.safeParse(rawReview);
+      if (result.success) {
+        reviews.push(result.data);
+      } else {
+        const reason = toFieldErrors(result.error).map(formatFieldError).join('; ');
+        quarantine(`${path}.reviews[${reviewIndex}]`, reason, { slug, review: rawReview });
+      }
+    });
+
+    let lastUpdated = item.lastUpdated;
+    if (!isValidDate(lastUpdated)) {
+      lastUpdated = latestReviewDate(reviews) || new Date().toISOString();
+      repaired(`${path}.lastUpdated`, `Invalid date replaced with ${lastUpdated}`);
+    }
+
+    let totalReviews = item.totalReviews;
+    if (typeof totalReviews !== 'number' || !Number.isInteger(totalReviews) || totalReviews < 0) {
+      totalReviews = reviews.length;
+      repaired(`${path}.totalReviews`, `Missing review count set to ${reviews.length}`);
+    }
+
+    // Metadata is fetched again on every refresh, so a bad copy isn't worth losing the plugin over
+    let metadata = item.metadata;
+    if (metadata !== undefined && !pluginMetadataSchema.safeParse(metadata).success) {
+      metadata = undefined;
+      repaired(`${path}.metadata`, 'Invalid plugin metadata dropped');
+    }
+
+    const result = pluginDataSchema.safeParse({ ...item, slug, reviews, lastUpdated, totalReviews, metadata });
+    if (!result.success) {
+      quarantine(path, toFieldErrors(result.error).map(formatFieldError).join('; '), item);
+      return;
+    }
+
+    const existing = pluginsBySlug.get(slug);
+    if (existing) {
+      pluginsBySlug.set(slug, mergeDuplicate(existing, result.data));
+      repaired(path, `Duplicate entry for "${slug}" merged`);
+    } else {
+      pluginsBySlug.set(slug, result.data);
+    }
+  });
+
+  return { plugins: Array.from(pluginsBySlug.values()), issues, quarantined };
+};
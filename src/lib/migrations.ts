@@ -0,0 +1,120 @@
+import { PluginData } from '@/lib/schema';
+import { topicIdFromUrl } from '@/lib/wporg';
+
+// Versioning for persisted state and exported backups. Every payload is stamped
+// with SCHEMA_VERSION; older payloads are upgraded one version at a time.
+
+export const SCHEMA_VERSION = 4;
+
+// Plugin records as they looked at some older version. They are only checked
+// against the current schema once every migration has run.
+export type RawPlugin = Record<string, unknown>;
+
+export interface VersionedPayload {
+  version: number;
+  exportedAt?: string;
+  plugins: RawPlugin[];
+}
+
+type Migration = (plugins: RawPlugin[]) => RawPlugin[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Applies a change to each plugin's review list, leaving malformed records for the integrity check
+const mapReviews = (plugins: RawPlugin[], update: (reviews: unknown[]) => unknown[]) =>
+  plugins.map(plugin => {
+    if (!isRecord(plugin) || !Array.isArray(plugin.reviews)) return plugin;
+    const reviews = update(plugin.reviews);
+    return { ...plugin, reviews, totalReviews: reviews.length };
+  });
+
+// Re-keys reviews by their wordpress.org topic and collapses the duplicates that
+// position-based RSS ids created. The most recently stored copy wins.
+const dedupeByTopic = (reviews: unknown[]) => {
+  const byId = new Map<unknown, unknown>();
+  reviews.forEach((review, index) => {
+    if (!isRecord(review)) {
+      byId.set(Symbol(index), review);
+      return;
+    }
+    const topicId = typeof review.reviewUrl === 'string' ? topicIdFromUrl(review.reviewUrl) : null;
+    const id = topicId || review.id || Symbol(index);
+    byId.set(id, topicId ? { ...review, id: topicId } : review);
+  });
+  return Array.from(byId.values());
+};
+
+// The old RSS parser stripped the "Rating: N stars" line before reading it and
+// fell back to 5, so a stored 5 can't be trusted. Those become unknown until a
+// refresh or the rating re-check reads the real value.
+const clearFallbackRatings = (reviews: unknown[]) =>
+  reviews.map(review => (isRecord(review) && review.rating === 5 ? { ...review, rating: null } : review));
+
+// migrations[n] upgrades plugins from version n to n + 1
+const migrations: Record<number, Migration> = {
+  // 0 -> 1: unversioned localStorage blobs and exports; only the envelope changed
+  0: (plugins) => plugins,
+  // 1 -> 2: review ids derived from the topic URL instead of the feed position
+  1: (plugins) => mapReviews(plugins, dedupeByTopic),
+  // 2 -> 3: ratings may be unknown (null) instead of defaulting to 5. Stored 5s
+  // can't be told apart from the old default, so genuine ones are cleared too;
+  // "Re-check unknown ratings" reads them back from the review listing pages.
+  2: (plugins) => mapReviews(plugins, clearFallbackRatings),
+  // 3 -> 4: reviews record their source; everything stored so far came from the feed
+  3: (plugins) => mapReviews(plugins, reviews =>
+    reviews.map(review => (isRecord(review) && !review.source ? { ...review, source: 'rss' } : review))
+  ),
+};
+
+export class UnsupportedVersionError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(`This data was saved by a newer version of the tracker (format v${version}, this app supports up to v${SCHEMA_VERSION}). Please update the app before loading it.`);
+    this.name = 'UnsupportedVersionError';
+    this.version = version;
+  }
+}
+
+// Accepts either a versioned envelope or a bare plugin array (version 0)
+export const readPayload = (raw: unknown): VersionedPayload => {
+  if (Array.isArray(raw)) {
+    return { version: 0, plugins: raw };
+  }
+  if (raw && typeof raw === 'object' && 'version' in raw && 'plugins' in raw) {
+    const { version, exportedAt, plugins } = raw as VersionedPayload;
+    if (!Number.isInteger(version) || version < 0) {
+      throw new Error('Invalid data version');
+    }
+    if (!Array.isArray(plugins)) {
+      throw new Error('Invalid data format: "plugins" must be an array');
+    }
+    return { version, exportedAt, plugins };
+  }
+  throw new Error('Invalid data format');
+};
+
+// Upgrades plugins from the given version to SCHEMA_VERSION
+export const migratePlugins = (plugins: RawPlugin[], fromVersion: number): RawPlugin[] => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new UnsupportedVersionError(fromVersion);
+  }
+
+  let migrated = plugins;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    migrated = migrations[version](migrated);
+  }
+  return migrated;
+};
+
+export const migratePayload = (raw: unknown): RawPlugin[] => {
+  const payload = readPayload(raw);
+  return migratePlugins(payload.plugins, payload.version);
+};
+
+export const createExportPayload = (plugins: PluginData[]) => ({
+  version: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  plugins,
+});
@@ -0,0 +1,151 @@
+import { decodeEntities } from '@/lib/html-text';
+import { HttpError, httpGet } from '@/lib/http';
+import { ItemType, PluginMetadata, pluginMetadataSchema } from '@/lib/schema';
+import { PluginSearchField, pluginInfoUrl, pluginSearchUrl, themeInfoUrl } from '@/lib/wporg';
+
+// Plugin and theme lookups against the wordpress.org info 1.2 APIs. Results are
+// cached for a while, and concurrent lookups for the same slug share one
+// request, so adding or importing many plugins doesn't hit the API once per call.
+
+const PLUGIN_INFO_TTL_MS = 60 * 60_000;
+
+export interface PluginInfo {
+  name: string | null;
+  exists: boolean;
+  metadata?: PluginMetadata;
+}
+
+const cache = new Map<string, { info: Promise<PluginInfo>; expiresAt: number }>();
+
+// The API reports missing values as false or ''
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const optionalNumber = (value: unknown) =>
+  typeof value === 'number' && isFinite(value) ? value : undefined;
+
+const stripTags = (html: unknown) =>
+  optionalString(typeof html === 'string' ? decodeEntities(html.replace(/<[^>]*>/g, '')) : undefined);
+
+// "2024-05-01 3:04pm GMT" (plugins) or "2024-05-01" (themes) -> ISO timestamp
+const parseApiDate = (value: unknown) => {
+  const dayMatch = typeof value === 'string' && value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dayMatch) return new Date(Date.UTC(Number(dayMatch[1]), Number(dayMatch[2]) - 1, Number(dayMatch[3]))).toISOString();
+
+  const match = typeof value === 'string' && value.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{1,2}):(\d{2})(am|pm) GMT$/i);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, meridiem] = match;
+  const hours = (Number(hour) % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), hours, Number(minute))).toISOString();
+};
+
+const urlRecord = (value: unknown) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value).filter(([, url]) => typeof url === 'string' && url);
+  return entries.length > 0 ? Object.fromEntries(entries) as Record<string, string> : undefined;
+};
+
+// Theme responses have the author as an object; protocol-relative screenshot URLs get https
+const authorName = (author: unknown) =>
+  stripTags(author && typeof author === 'object' ? (author as Record<string, unknown>).display_name : author);
+
+const authorProfile = (data: Record<string, unknown>) =>
+  optionalString(data.author_profile) ||
+  (data.author && typeof data.author === 'object' ? optionalString((data.author as Record<string, unknown>).profile) : undefined);
+
+const absoluteUrl = (value: unknown) => {
+  const url = optionalString(value);
+  return url?.startsWith('//') ? `https:${url}` : url;
+};
+
+// Maps either API's snake_case response onto PluginMetadata, dropping anything malformed
+export const parsePluginMetadata = (data: Record<string, unknown>): PluginMetadata | undefined => {
+  const ratings = data.ratings && typeof data.ratings === 'object' && !Array.isArray(data.ratings)
+    ? Object.fromEntries(Object.entries(data.ratings).map(([stars, count]) => [stars, Number(count) || 0]))
+    : undefined;
+
+  const result = pluginMetadataSchema.safeParse({
+    version: optionalString(data.version),
+    author: authorName(data.author),
+    authorProfile: authorProfile(data),
+    activeInstalls: optionalNumber(data.active_installs),
+    rating: optionalNumber(data.rating),
+    ratings,
+    numRatings: optionalNumber(data.num_ratings),
+    requiresWordPress: optionalString(data.requires),
+    testedUpTo: optionalString(data.tested),
+    requiresPhp: optionalString(data.requires_php),
+    lastUpdated: parseApiDate(data.last_updated),
+    icons: urlRecord(data.icons),
+    banners: urlRecord(data.banners),
+    screenshot: absoluteUrl(data.screenshot_url),
+    fetchedAt: new Date().toISOString(),
+  });
+  if (!result.success) {
+    console.warn('Ignoring invalid plugin metadata:', result.error.issues);
+    return undefined;
+  }
+  return result.data;
+};
+
+const lookupPluginInfo = async (slug: string, type: ItemType): Promise<PluginInfo> => {
+  const url = type === 'theme' ? themeInfoUrl(slug) : pluginInfoUrl(slug);
+  const response = await httpGet(url, { accept: 'application/json', direct: true });
+  const data = await response.json();
+  if (!data || data.error) {
+    return { name: null, exists: false };
+  }
+  return { name: stripTags(data.name) ?? null, exists: true, metadata: parsePluginMetadata(data) };
+};
+
+export const fetchPluginInfo = (slug: string, type: ItemType = 'plugin'): Promise<PluginInfo> => {
+  const key = `${type}:${slug}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.info;
+
+  const info = lookupPluginInfo(slug, type).catch(error => {
+    // A 404 is a definite answer; anything else may work next time
+    if (!(error instanceof HttpError && error.status === 404)) {
+      cache.delete(key);
+    }
+    return { name: null, exists: false };
+  });
+  cache.set(key, { info, expiresAt: Date.now() + PLUGIN_INFO_TTL_MS });
+  return info;
+};
+
+export interface PluginSearchResult {
+  slug: string;
+  name: string;
+  metadata?: PluginMetadata;
+}
+
+// Searches the plugin directory, most relevant first. Results aren't cached:
+// the query changes with every keystroke and the caller debounces.
+export const searchPlugins = async (
+  query: string,
+  by: PluginSearchField = 'search',
+  signal?: AbortSignal
+): Promise<PluginSearchResult[]> => {
+  // Tags are matched by slug, so "contact form" looks up contact-form
+  const term = by === 'tag' ? query.trim().toLowerCase().replace(/\s+/g, '-') : query;
+  const response = await httpGet(pluginSearchUrl(term, by), { accept: 'application/json', direct: true, signal, retries: 1 });
+  const data = await response.json();
+  if (!data || data.error || !Array.isArray(data.plugins)) return [];
+
+  return data.plugins
+    .filter((plugin: Record<string, unknown>) => optionalString(plugin?.slug))
+    .map((plugin: Record<string, unknown>) => ({
+      slug: optionalString(plugin.slug),
+      name: stripTags(plugin.name) || optionalString(plugin.slug),
+      metadata: parsePluginMetadata(plugin),
+    }));
+};
+
+// 5000000 -> "5+ million", 300000 -> "300,000+", like wordpress.org shows them
+export const formatActiveInstalls = (installs: number) =>
+  installs >= 1_000_000 ? `${installs / 1_000_000}+ million` : `${installs.toLocaleString()}+`;
+
+// The API's 0-100 rating as stars out of 5
+export const starRating = (metadata: PluginMetadata) =>
+  metadata.rating !== undefined ? Math.round(metadata.rating / 2) / 10 : null;
@@ -0,0 +1,126 @@
+import { ProxyConfig, getSettings } from '@/lib/settings';
+
+// wordpress.org doesn't send CORS headers, so requests go through the CORS
+// proxies configured in settings, in order. Each attempt feeds the health stats.
+
+const HEALTH_KEY = 'wporg-proxy-health';
+
+// See server/wporg-proxy.mjs
+export const UPSTREAM_STATUS_HEADER = 'X-Upstream-Status';
+
+export interface ProxyHealth {
+  successes: number;
+  failures: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastUsedAt?: string;
+}
+
+// Settings problem rather than a network one, so retrying can't help
+export class ProxyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProxyConfigError';
+  }
+}
+
+export const buildProxyUrl = (proxy: ProxyConfig, url: string) =>
+  proxy.template.replace('{url}', encodeURIComponent(url));
+
+export const getProxyHealth = (): Record<string, ProxyHealth> => {
+  try {
+    return JSON.parse(localStorage.getItem(HEALTH_KEY) || '{}');
+  } catch (error) {
+    return {};
+  }
+};
+
+export const resetProxyHealth = () => {
+  localStorage.removeItem(HEALTH_KEY);
+};
+
+const recordProxyResult = (proxyId: string, latencyMs: number, error?: string) => {
+  const health = getProxyHealth();
+  const stats = health[proxyId] || { successes: 0, failures: 0 };
+  health[proxyId] = {
+    ...stats,
+    successes: stats.successes + (error ? 0 : 1),
+    failures: stats.failures + (error ? 1 : 0),
+    lastLatencyMs: Math.round(latencyMs),
+    lastError: error ?? stats.lastError,
+    lastUsedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(HEALTH_KEY, JSON.stringify(health));
+};
+
+// 404 and 410 that a marking proxy got from wordpress.org. The same status from
+// any other proxy may be the proxy's own, so the next proxy is asked.
+const isUpstreamGone = (proxy: ProxyConfig, response: Response) =>
+  !!proxy.marksUpstreamStatus && (response.status === 404 || response.status === 410);
+
+// Tries each enabled proxy in turn and returns the first OK (or 304) response, or
+// the first confirmed upstream 404/410. If no proxy got either, the last non-OK
+// response is returned so callers can see the status (and Retry-After); it only
+// throws when no proxy answered at all. Only responses carrying
+// X-Upstream-Status are known to hold wordpress.org's own status.
+export const fetchThroughProxies = async (
+  url: string,
+  accept = '*/*',
+  signal?: AbortSignal,
+  headers: Record<string, string> = {}
+): Promise<Response> => {
+  const proxies = getSettings().proxies.filter(proxy => proxy.enabled);
+  if (proxies.length === 0) {
+    throw new ProxyConfigError('No CORS proxies are enabled. Enable one in Settings.');
+  }
+
+  let lastError;
+  let lastResponse: Response | undefined;
+
+  for (const proxy of proxies) {
+    const proxyUrl = buildProxyUrl(proxy, url);
+    const startedAt = performance.now();
+    try {
+      console.log(`Trying proxy: ${proxyUrl}`);
+      const response = await fetch(proxyUrl, {
+        method: 'GET',
+        headers: {
+          'Accept': accept,
+          // Extra headers make public proxies fail the CORS preflight, so only send them where they're forwarded
+          ...(proxy.forwardsHeaders ? headers : {}),
+        },
+        signal
+      });
+
+      // Its own errors, or a host where it isn't mounted answering the path itself
+      if (proxy.marksUpstreamStatus && !response.headers.has(UPSTREAM_STATUS_HEADER)) {
+        throw new Error(`No wordpress.org response through this proxy (HTTP ${response.status})`);
+      }
+
+      if (response.ok || response.status === 304) {
+        console.log(`Successfully connected using: ${proxyUrl}`);
+        recordProxyResult(proxy.id, performance.now() - startedAt);
+        return response;
+      }
+      // wordpress.org's own answer that the page is gone; the other proxies would only repeat it
+      if (isUpstreamGone(proxy, response)) {
+        recordProxyResult(proxy.id, performance.now() - startedAt);
+        return response;
+      }
+      lastResponse = response;
+      throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      // A cancelled request shouldn't fall through to the next proxy or count against it
+      if (signal?.aborted) throw error;
+      console.log(`Failed with proxy ${proxyUrl}:`, error);
+      recordProxyResult(proxy.id, performance.now() - startedAt, error instanceof Error ? error.message : String(error));
+      lastError = error;
+    }
+  }
+
+  if (lastResponse) return lastResponse;
+  const hint = proxies.every(proxy => proxy.marksUpstreamStatus)
+    ? ' The local proxy only runs with the dev and preview servers; enable a public proxy in Settings to fetch without it.'
+    : '';
+  throw new Error(`All proxy services failed. Last error: ${lastError?.message || 'Unknown error'}.${hint}`);
+};
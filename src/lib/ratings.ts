@@ -0,0 +1,45 @@
+import { httpGet } from '@/lib/http';
+
+// Star ratings as wordpress.org publishes them. A rating that can't be read is
+// null ("unknown") rather than a made-up default.
+
+const toRating = (value: string | number | null | undefined): number | null => {
+  const rating = typeof value === 'number' ? value : parseInt(value ?? '', 10);
+  return Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : null;
+};
+
+// Review feed descriptions carry the rating as its own paragraph:
+//   <p>Replies: 0</p><p>Rating: 4 stars</p><p>Review text…</p>
+// This has to run on the raw description, before tags and meta lines are stripped.
+export const parseFeedRating = (descriptionHtml: string): number | null => {
+  const doc = new DOMParser().parseFromString(descriptionHtml, 'text/html');
+  for (const paragraph of Array.from(doc.querySelectorAll('p'))) {
+    const match = paragraph.textContent?.trim().match(/^Rating:\s*(\d)\s*stars?/i);
+    if (match) return toRating(match[1]);
+  }
+
+  const textMatch = descriptionHtml.replace(/<[^>]*>/g, ' ').match(/Rating:\s*(\d)\s*stars?/i);
+  return textMatch ? toRating(textMatch[1]) : null;
+};
+
+// Review pages render <div class="wporg-ratings" data-rating="4" title="4 out of 5 stars">
+export const parseRatingElement = (element: Element | null): number | null => {
+  if (!element) return null;
+
+  const dataRating = toRating(element.getAttribute('data-rating'));
+  if (dataRating !== null) return dataRating;
+
+  const label = [element.getAttribute('aria-label'), element.getAttribute('title'), element.textContent]
+    .filter(Boolean)
+    .join(' ');
+  const match = label.match(/(\d)\s*(?:out of|\/)\s*5/i);
+  return match ? toRating(match[1]) : null;
+};
+
+// Re-reads the rating from a review's topic page, for reviews stored without one
+export const fetchTopicRating = async (topicUrl: string): Promise<number | null> => {
+  const response = await httpGet(topicUrl, { accept: 'text/html' });
+  const doc = new DOMParser().parseFromString(await response.text(), 'text/html');
+  const leadTopic = doc.querySelector('.bbp-lead-topic') || doc;
+  return parseRatingElement(leadTopic.querySelector('.wporg-ratings'));
+};
@@ -0,0 +1,65 @@
+import { HttpError, httpGet } from '@/lib/http';
+import { hasEstimatedDate } from '@/lib/reviews';
+import { PluginData, Review } from '@/lib/schema';
+
+// Detects reviews that were deleted or hidden on wordpress.org. A review that a
+// fetch should have returned but didn't is only a candidate; it is tombstoned
+// once its topic URL confirms it's gone, since listings and feeds can be flaky.
+
+// Topic pages checked per refresh, so one reconciliation can't flood the host
+const MAX_CHECKS_PER_REFRESH = 10;
+
+// Stored, live reviews missing from a fetch. With `since`, only reviews at least
+// that new are expected (the feed only covers the newest reviews); reviews with
+// an estimated date can't be placed in that window, so they aren't expected.
+export const findMissingReviews = (stored: Review[], seenIds: Set<string>, since?: Date) =>
+  stored.filter(review =>
+    !review.removedAt &&
+    review.reviewUrl &&
+    !seenIds.has(review.id) &&
+    (!since || (!hasEstimatedDate(review) && new Date(review.date) >= since))
+  );
+
+// Oldest date in a fetch: the window it was expected to cover
+export const oldestReviewDate = (reviews: Review[]) =>
+  reviews.length > 0 ? new Date(Math.min(...reviews.map(review => new Date(review.date).getTime()))) : undefined;
+
+// true when the topic is gone, false when it's there, null when we couldn't tell.
+// Only wordpress.org's own 404/410 counts as gone (HttpError.upstream); a 404 from
+// a proxy that doesn't mark the upstream status, proxy failures, rate limits and
+// server errors leave the review as it is.
+const isTopicRemoved = async (topicUrl: string, signal?: AbortSignal) => {
+  try {
+    await httpGet(topicUrl, { accept: 'text/html', signal, retries: 1 });
+    return false;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    if (error instanceof HttpError && error.upstream && (error.status === 404 || error.status === 410)) return true;
+    console.warn(`Could not check whether ${topicUrl} still exists:`, error);
+    return null;
+  }
+};
+
+// Checks candidates one by one and returns the ids confirmed as removed
+export const confirmRemovedReviews = async (
+  candidates: Review[],
+  signal?: AbortSignal,
+  limit = MAX_CHECKS_PER_REFRESH
+): Promise<string[]> => {
+  const removed: string[] = [];
+  for (const review of candidates.slice(0, limit)) {
+    if (await isTopicRemoved(review.reviewUrl, signal)) {
+      removed.push(review.id);
+    }
+  }
+  return removed;
+};
+
+export const markReviewsRemoved = (plugin: PluginData, ids: string[], removedAt = new Date().toISOString()): PluginData => {
+  if (ids.length === 0) return plugin;
+  const removedIds = new Set(ids);
+  return {
+    ...plugin,
+    reviews: plugin.reviews.map(review => (removedIds.has(review.id) && !review.removedAt ? { ...review, removedAt } : review)),
+  };
+};
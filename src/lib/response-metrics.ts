@@ -0,0 +1,64 @@
+import { hasEstimatedDate } from '@/lib/reviews';
+import { PluginData, Review } from '@/lib/schema';
+
+// How well a plugin's or theme's developers answer its reviews. Only live reviews whose replies
+// are known count; threads that haven't been read yet are reported separately.
+
+export interface ResponseMetrics {
+  reviews: number;
+  // Reviews we know the reply situation of
+  known: number;
+  // Not read yet: replies reported but the thread hasn't been checked
+  pending: number;
+  replied: number;
+  developerReplied: number;
+  // developerReplied / known, or null with nothing known
+  responseRate: number | null;
+  medianResponseMs: number | null;
+  medianFirstReplyMs: number | null;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Time from the review to a reply; negative gaps (date precision) count as immediate.
+// Estimated review dates are too rough to time anything against.
+const delay = (review: Review, repliedAt?: string) =>
+  repliedAt && !hasEstimatedDate(review)
+    ? Math.max(0, new Date(repliedAt).getTime() - new Date(review.date).getTime())
+    : null;
+
+export const responseMetrics = (plugin: PluginData): ResponseMetrics => {
+  const live = plugin.reviews.filter(review => !review.removedAt);
+  // No replies at all is known without reading the thread
+  const known = live.filter(review => review.thread || review.replyCount === 0);
+  const responseDelays = known.map(review => delay(review, review.thread?.developerReplyAt)).filter(ms => ms !== null);
+  const firstReplyDelays = known.map(review => delay(review, review.thread?.firstReplyAt)).filter(ms => ms !== null);
+  const developerReplied = known.filter(review => review.thread?.developerReplied).length;
+
+  return {
+    reviews: live.length,
+    known: known.length,
+    pending: live.length - known.length,
+    replied: known.filter(review => (review.thread?.replyCount ?? 0) > 0).length,
+    developerReplied,
+    responseRate: known.length > 0 ? developerReplied / known.length : null,
+    medianResponseMs: median(responseDelays),
+    medianFirstReplyMs: median(firstReplyDelays),
+  };
+};
+
+// 90000000 -> "1d 1h", 5400000 -> "1h 30m"
+export const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  const minutes = Math.round(ms / 60_000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
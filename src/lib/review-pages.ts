@@ -0,0 +1,180 @@
+import { httpGet } from '@/lib/http';
+import { parseRatingElement } from '@/lib/ratings';
+import { ItemType, Review, ReviewInput, formatFieldError, validateReviews } from '@/lib/schema';
+import { forumOrigin, localeFromUrl, parseForumDate, reviewPageUrl, topicIdFromUrl } from '@/lib/wporg';
+
+// Parser for the HTML review listing pages (/support/{plugin|theme}/{slug}/reviews/page/N/)
+
+export interface ReviewPage {
+  page: number;
+  reviews: Review[];
+  // Read from the page's pagination markup; null if the page has none
+  totalPages: number | null;
+}
+
+export const parseNumber = (text: string | null | undefined) => parseInt((text || '').replace(/[^\d]/g, ''), 10);
+
+// Uses the highest page link, or "Viewing 30 topics - 1 through 30 (of 1,234 total)"
+const parseTotalPages = (doc: Document, page: number): number | null => {
+  const pageLinks = Array.from(doc.querySelectorAll('.bbp-pagination-links .page-numbers'))
+    .map(link => parseNumber(link.textContent))
+    .filter(number => !isNaN(number));
+
+  let countPages = NaN;
+  const countMatch = doc.querySelector('.bbp-pagination-count')?.textContent
+    ?.match(/([\d,]+)\s+through\s+([\d,]+)\s+\(of\s+([\d,]+)\s+total\)/i);
+  if (countMatch) {
+    const [first, last, total] = countMatch.slice(1).map(parseNumber);
+    const perPage = page > 1 ? (first - 1) / (page - 1) : last - first + 1;
+    if (perPage > 0) {
+      countPages = Math.ceil(total / perPage);
+    }
+  }
+
+  const candidates = [...pageLinks, countPages, page].filter(number => !isNaN(number));
+  return pageLinks.length > 0 || !isNaN(countPages) ? Math.max(...candidates) : null;
+};
+
+// "3 months ago" counted back from now; only as precise as its unit
+const parseRelativeDate = (text: string) => {
+  const relativeMatch = text.match(/(\d+)\s+(minutes?|hours?|days?|weeks?|months?|years?)\s+ago/i);
+  if (!relativeMatch) return null;
+
+  const amount = parseInt(relativeMatch[1]);
+  const unit = relativeMatch[2].toLowerCase();
+  const now = new Date();
+
+  if (unit.includes('minute')) {
+    now.setMinutes(now.getMinutes() - amount);
+  } else if (unit.includes('hour')) {
+    now.setHours(now.getHours() - amount);
+  } else if (unit.includes('day')) {
+    now.setDate(now.getDate() - amount);
+  } else if (unit.includes('week')) {
+    now.setDate(now.getDate() - (amount * 7));
+  } else if (unit.includes('month')) {
+    now.setMonth(now.getMonth() - amount);
+  } else if (unit.includes('year')) {
+    now.setFullYear(now.getFullYear() - amount);
+  }
+
+  return now.toISOString();
+};
+
+// Prefers absolute markup (<time datetime>, "March 5, 2024 at 3:12 pm" link
+// titles, YYYY-MM-DD). Relative text, or nothing at all, gives an estimate.
+export const parseTopicDate = (topicEl: Element) => {
+  const meta = topicEl.querySelector('.bbp-topic-meta') || topicEl;
+  const datetime = meta.querySelector('time[datetime]')?.getAttribute('datetime');
+  if (datetime && !isNaN(new Date(datetime).getTime())) {
+    return { date: new Date(datetime).toISOString(), dateEstimated: false };
+  }
+
+  const titled = Array.from(meta.querySelectorAll('[title]')).map(el => parseForumDate(el.getAttribute('title'))).find(Boolean);
+  if (titled) return { date: titled, dateEstimated: false };
+
+  const dateText = meta.querySelector('.bbp-topic-started-in')?.textContent?.trim() || '';
+  const absolute = parseForumDate(dateText);
+  if (absolute) return { date: absolute, dateEstimated: false };
+
+  const dateMatch = dateText.match(/(\d{4}-\d{2}-\d{2})/);
+  if (dateMatch) return { date: new Date(dateMatch[1]).toISOString(), dateEstimated: false };
+
+  return { date: parseRelativeDate(dateText) || new Date().toISOString(), dateEstimated: true };
+};
+
+const parseReviewElement = (reviewEl: Element, origin: string): ReviewInput | null => {
+  // Extract rating using the wporg-ratings class (null when it can't be read)
+  const rating = parseRatingElement(reviewEl.querySelector('.wporg-ratings'));
+  
+  // Extract title using bbp-topic-title
+  let title = '';
+  const titleElement = reviewEl.querySelector('.bbp-topic-title');
+  if (titleElement) {
+    title = titleElement.textContent?.trim() || '';
+  }
+  
+  // Extract review link
+  let reviewUrl = '';
+  const linkElement = reviewEl.querySelector('.bbp-topic-title a');
+  if (linkElement) {
+    const href = linkElement.getAttribute('href');
+    if (href) {
+      reviewUrl = href.startsWith('http') ? href : `${origin}${href}`;
+    }
+  }
+  
+  // Extract author from topic meta
+  let author = 'Anonymous';
+  const authorElement = reviewEl.querySelector('.bbp-topic-meta .bbp-topic-started-by');
+  if (authorElement) {
+    author = authorElement.textContent?.trim().replace('Started by:', '').trim() || 'Anonymous';
+  }
+  
+  // Extract date from topic meta
+  const { date, dateEstimated } = parseTopicDate(reviewEl);
+  
+  // Use title as content if available, otherwise look for other content
+  let content = title || '';
+  if (!content) {
+    const contentElement = reviewEl.querySelector('.bbp-topic-content, .entry-content');
+    if (contentElement) {
+      content = contentElement.textContent?.trim() || '';
+    }
+  }
+  
+  const replyCount = parseNumber(reviewEl.querySelector('.bbp-topic-reply-count')?.textContent);
+
+  if (!content || content.length <= 10) return null;
+
+  return {
+    id: topicIdFromUrl(reviewUrl) || undefined,
+    date,
+    dateEstimated: dateEstimated || undefined,
+    rating,
+    content,
+    author: author.substring(0, 100), // Limit author length
+    reviewUrl,
+    title: title.substring(0, 200), // Limit title length
+    source: 'html',
+    locale: localeFromUrl(reviewUrl),
+    replyCount: isNaN(replyCount) ? undefined : replyCount
+  };
+};
+
+// `origin` resolves relative links; locale forums live on their own subdomain
+export const parseReviewPage = (html: string, page: number, origin = forumOrigin()): ReviewPage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  
+  // bbPress renders each topic as <ul id="bbp-topic-123" class="topic ...">
+  const reviewElements = doc.querySelectorAll('ul[id^="bbp-topic-"], .bbp-topic');
+  console.log(`Found ${reviewElements.length} reviews on page ${page}`);
+  
+  const pageReviews: ReviewInput[] = [];
+  reviewElements.forEach((reviewEl, index) => {
+    try {
+      const review = parseReviewElement(reviewEl, origin);
+      if (review) {
+        pageReviews.push(review);
+      }
+    } catch (error) {
+      console.warn(`Error parsing review ${index} on page ${page}:`, error);
+    }
+  });
+
+  const { reviews, errors } = validateReviews(pageReviews);
+  errors.forEach(fieldError => console.warn(`Rejected review on page ${page}: ${formatFieldError(fieldError)}`));
+
+  return { page, reviews, totalPages: parseTotalPages(doc, page) };
+};
+
+export const fetchReviewPage = async (
+  slug: string,
+  type: ItemType,
+  page: number,
+  signal?: AbortSignal,
+  locale?: string
+): Promise<ReviewPage> => {
+  const response = await httpGet(reviewPageUrl(slug, page, type, locale), { accept: 'text/html', signal });
+  return parseReviewPage(await response.text(), page, forumOrigin(locale));
+};
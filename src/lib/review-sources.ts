@@ -0,0 +1,205 @@
+import { confirmRemovedReviews, findMissingReviews, oldestReviewDate } from '@/lib/reconcile';
+import { fetchTopicRating } from '@/lib/ratings';
+import { fetchReviewPage } from '@/lib/review-pages';
+import { upsertReviews } from '@/lib/reviews';
+import { fetchReviewFeed } from '@/lib/rss';
+import { ItemType, Review, ReviewSource, ReviewThread } from '@/lib/schema';
+import { fetchReviewThreads } from '@/lib/threads';
+import { localeLabel, reviewFeedUrl } from '@/lib/wporg';
+
+// Source strategy for a plugin's or theme's latest reviews: the RSS feed first, falling
+// back to the HTML review pages when the feed fails or looks truncated.
+
+const MAX_FALLBACK_PAGES = 5;
+// Topic pages read for ratings the listing pages didn't show
+const MAX_TOPIC_RATING_CHECKS = 20;
+
+export interface SourcedReviews {
+  reviews: Review[];
+  sources: ReviewSource[];
+  // Why the HTML pages were used, if they were
+  fallbackReason?: string;
+  // Stored reviews confirmed deleted or hidden on wordpress.org
+  removedIds: string[];
+  // Reply details read from topic pages, by review id
+  threads: Record<string, ReviewThread>;
+}
+
+// The feed only carries the newest reviews. If it shares nothing with what we
+// already have, there may be reviews between the two that we never saw.
+const truncationReason = (feedReviews: Review[], itemCount: number, storedIds: Set<string>) => {
+  if (itemCount === 0) return 'Feed is empty';
+  if (feedReviews.length === 0) return 'No feed items could be parsed';
+  if (storedIds.size > 0 && !feedReviews.some(review => storedIds.has(review.id))) {
+    return 'Feed does not reach the newest stored review';
+  }
+  return null;
+};
+
+// Walks listing pages until one overlaps the stored reviews
+const fetchHtmlReviews = async (
+  slug: string,
+  type: ItemType,
+  storedIds: Set<string>,
+  signal?: AbortSignal,
+  locale?: string
+) => {
+  const reviews: Review[] = [];
+
+  for (let page = 1; page <= MAX_FALLBACK_PAGES; page++) {
+    const result = await fetchReviewPage(slug, type, page, signal, locale);
+    reviews.push(...result.reviews);
+
+    const reachedStored = result.reviews.some(review => storedIds.has(review.id));
+    const lastPage = result.totalPages === null || page >= result.totalPages;
+    if (reachedStored || lastPage || result.reviews.length === 0) break;
+  }
+
+  return reviews;
+};
+
+const fetchSourcedReviews = async (
+  slug: string,
+  type: ItemType,
+  storedReviews: Review[],
+  signal?: AbortSignal,
+  locale?: string
+): Promise<Omit<SourcedReviews, 'removedIds' | 'threads'>> => {
+  const storedIds = new Set(storedReviews.map(review => review.id));
+  let feedReviews: Review[] = [];
+  let fallbackReason: string | null;
+
+  try {
+    const feed = await fetchReviewFeed(reviewFeedUrl(slug, type, locale), signal);
+    feedReviews = feed.reviews;
+    fallbackReason = truncationReason(feed.reviews, feed.itemCount, storedIds);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    fallbackReason = `Feed failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  if (!fallbackReason) {
+    return { reviews: feedReviews, sources: ['rss'] };
+  }
+
+  console.warn(`Falling back to HTML review pages for ${slug} on ${localeLabel(locale)}: ${fallbackReason}`);
+
+  try {
+    const htmlReviews = await fetchHtmlReviews(slug, type, storedIds, signal, locale);
+    return {
+      reviews: upsertReviews(feedReviews, htmlReviews),
+      sources: feedReviews.length > 0 ? ['rss', 'html'] : ['html'],
+      fallbackReason,
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    if (feedReviews.length === 0) {
+      throw new Error(`${fallbackReason}; HTML pages failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    // The feed worked but looked truncated; keep what it returned
+    return { reviews: feedReviews, sources: ['rss'], fallbackReason };
+  }
+};
+
+// Latest reviews from one forum plus a reconciliation pass: stored reviews inside
+// the window the fetch covered that it didn't return are checked against
+// wordpress.org. Threads with new replies are read afterwards. `storedReviews`
+// must only hold reviews from the same forum.
+export const fetchLatestReviews = async (
+  slug: string,
+  type: ItemType,
+  storedReviews: Review[],
+  signal?: AbortSignal,
+  locale?: string
+): Promise<SourcedReviews> => {
+  const result = await fetchSourcedReviews(slug, type, storedReviews, signal, locale);
+  const seenIds = new Set(result.reviews.map(review => review.id));
+  const since = oldestReviewDate(result.reviews);
+  const candidates = since ? findMissingReviews(storedReviews, seenIds, since) : [];
+  const removedIds = candidates.length > 0 ? await confirmRemovedReviews(candidates, signal) : [];
+  if (removedIds.length > 0) {
+    console.log(`Reviews removed from wordpress.org for ${slug}:`, removedIds);
+  }
+
+  const removed = new Set(removedIds);
+  const liveReviews = upsertReviews(storedReviews, result.reviews).filter(review => !removed.has(review.id));
+  const threads = await fetchReviewThreads(liveReviews, signal);
+
+  return { ...result, removedIds, threads };
+};
+
+// The main forum and then each locale forum. The main forum has to succeed; a
+// failing locale forum is skipped until the next refresh.
+export const fetchForumReviews = async (
+  slug: string,
+  type: ItemType,
+  locales: string[],
+  storedReviews: Review[],
+  signal?: AbortSignal
+): Promise<SourcedReviews> => {
+  let combined = await fetchLatestReviews(slug, type, storedReviews.filter(review => !review.locale), signal);
+
+  for (const locale of locales) {
+    try {
+      const stored = storedReviews.filter(review => review.locale === locale);
+      const result = await fetchLatestReviews(slug, type, stored, signal, locale);
+      combined = {
+        reviews: [...combined.reviews, ...result.reviews],
+        sources: Array.from(new Set([...combined.sources, ...result.sources])),
+        fallbackReason: combined.fallbackReason ??
+          (result.fallbackReason && `${localeLabel(locale)}: ${result.fallbackReason}`),
+        removedIds: [...combined.removedIds, ...result.removedIds],
+        threads: { ...combined.threads, ...result.threads },
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to fetch reviews for ${slug} from ${localeLabel(locale)}:`, error);
+    }
+  }
+
+  return combined;
+};
+
+// Ratings for reviews stored without one, by review id. Each listing page shows
+// about 30 ratings, so a forum's pages are walked until every wanted review has
+// turned up; only reviews the pages didn't show are read from their topic pages.
+export const recoverRatings = async (
+  slug: string,
+  type: ItemType,
+  reviews: Review[],
+  signal?: AbortSignal
+): Promise<Map<string, number>> => {
+  const found = new Map<string, number>();
+
+  for (const locale of Array.from(new Set(reviews.map(review => review.locale)))) {
+    const wanted = new Set(reviews.filter(review => review.locale === locale).map(review => review.id));
+    try {
+      for (let page = 1, totalPages = 1; page <= totalPages && wanted.size > 0; page++) {
+        const result = await fetchReviewPage(slug, type, page, signal, locale);
+        if (result.reviews.length === 0) break;
+        totalPages = result.totalPages ?? page + 1;
+        result.reviews.forEach(review => {
+          if (wanted.has(review.id) && review.rating !== null) {
+            found.set(review.id, review.rating);
+            wanted.delete(review.id);
+          }
+        });
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to read ratings from the review pages of ${slug} on ${localeLabel(locale)}:`, error);
+    }
+  }
+
+  const leftover = reviews.filter(review => !found.has(review.id) && review.reviewUrl);
+  for (const review of leftover.slice(0, MAX_TOPIC_RATING_CHECKS)) {
+    try {
+      const rating = await fetchTopicRating(review.reviewUrl);
+      if (rating !== null) found.set(review.id, rating);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to re-check rating for ${review.reviewUrl}:`, error);
+    }
+  }
+  return found;
+};
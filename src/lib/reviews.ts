@@ -0,0 +1,117 @@
+import { PluginData, Review, ReviewRevision } from '@/lib/schema';
+
+// Older copies had entities replaced by spaces and were cut at 1000 characters.
+// Comparing letters and digits only keeps re-parsing them from counting as an
+// edit (at the cost of not tracking punctuation-only edits).
+const LEGACY_CONTENT_LIMIT = 1000;
+
+const comparableText = (text: string) => text.replace(/[^\p{L}\p{N}]+/gu, '');
+
+const sameText = (stored: string, fetched: string) =>
+  stored.length === LEGACY_CONTENT_LIMIT
+    ? comparableText(fetched).startsWith(comparableText(stored))
+    : comparableText(stored) === comparableText(fetched);
+
+// Copies from different sources differ in shape (the HTML listing only has the
+// title), so only same-source copies can tell us the text was edited
+const isTextEdit = (existing: Review, incoming: Review) =>
+  existing.source === incoming.source && !sameText(existing.content, incoming.content);
+
+// Filling in an unknown rating isn't a change of mind
+const isRatingChange = (existing: Review, incoming: Review) =>
+  existing.rating !== null && incoming.rating !== null && existing.rating !== incoming.rating;
+
+const toRevision = (review: Review): ReviewRevision => ({
+  content: review.content,
+  title: review.title,
+  rating: review.rating,
+  replacedAt: new Date().toISOString(),
+});
+
+// Flagged estimates, plus listing copies stored before dates were flagged: those
+// kept only YYYY-MM-DD and were usually worked out from "3 months ago"
+export const hasEstimatedDate = (review: Review) =>
+  !!review.dateEstimated || (review.source === 'html' && /^\d{4}-\d{2}-\d{2}$/.test(review.date));
+
+// Local date and time for display; estimates only show the day
+export const formatReviewDate = (review: Review) => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(review.date)) return review.date;
+  const date = new Date(review.date);
+  return hasEstimatedDate(review)
+    ? `about ${date.toLocaleDateString()}`
+    : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+// Shallow comparison; a missing key and an undefined one count as the same
+const sameFields = (a: Review, b: Review) =>
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .every(key => a[key as keyof Review] === b[key as keyof Review]);
+
+// Combines two copies of the same review. The incoming copy wins, except that an
+// HTML listing copy (title only) never replaces text that came from the feed and
+// an unknown rating never replaces a known one. An estimated date never replaces
+// the stored one: relative dates only get coarser ("11 months ago", then "1 year
+// ago"), so the earlier estimate is the closer one. When the reviewer edited the
+// text or changed the rating, the old version is kept in `revisions`. A removed
+// review that shows up again is live again.
+export const mergeReviewCopies = (existing: Review, incoming: Review): Review => {
+  const base = existing.source === 'rss' && incoming.source === 'html' ? existing : incoming;
+  const rating = incoming.rating ?? existing.rating;
+  const keepDate = hasEstimatedDate(incoming);
+  const date = keepDate ? existing.date : incoming.date;
+  const dateEstimated = keepDate ? existing.dateEstimated : incoming.dateEstimated;
+  const textEdited = isTextEdit(existing, incoming);
+  const revisions = textEdited || isRatingChange(existing, incoming)
+    ? [...(existing.revisions || []), toRevision(existing)]
+    : existing.revisions;
+
+  // Reply details are only read into stored copies, never fetched ones. The lead
+  // post read with them is dropped after an edit, so the new text is shown.
+  const replyCount = incoming.replyCount ?? existing.replyCount;
+  const storedThread = incoming.thread ?? existing.thread;
+  const thread = textEdited && storedThread?.content !== undefined ? { ...storedThread, content: undefined } : storedThread;
+
+  const merged: Review = { ...base, date, dateEstimated, rating, revisions, replyCount, thread, removedAt: undefined };
+  // Unchanged reviews keep their identity, so savePluginChanges doesn't write them again
+  return sameFields(existing, merged) ? existing : merged;
+};
+
+// First known rating before the current one, if the reviewer changed it
+export const originalRating = (review: Review) => {
+  const earlier = review.revisions?.find(revision => revision.rating !== null);
+  return earlier && review.rating !== null && earlier.rating !== review.rating ? earlier.rating : null;
+};
+
+// Merges freshly fetched reviews into a stored list, keyed by review id
+export const upsertReviews = (existingReviews: Review[], newReviews: Review[]): Review[] => {
+  const reviewMap = new Map<string, Review>();
+  
+  // Add existing reviews to map
+  existingReviews.forEach(review => {
+    reviewMap.set(review.id, review);
+  });
+  
+  // Add/update with new reviews
+  newReviews.forEach(review => {
+    const existing = reviewMap.get(review.id);
+    reviewMap.set(review.id, existing ? mergeReviewCopies(existing, review) : review);
+  });
+  
+  return Array.from(reviewMap.values());
+};
+
+// Returns the plugin with the new reviews merged in and its counters updated.
+// Backfill pages pass the stored `lastUpdated`, since they aren't a refresh.
+export const mergePluginReviews = (
+  plugin: PluginData,
+  newReviews: Review[],
+  lastUpdated = new Date().toISOString()
+): PluginData => {
+  const reviews = upsertReviews(plugin.reviews, newReviews);
+  return {
+    ...plugin,
+    reviews,
+    lastUpdated,
+    totalReviews: reviews.length
+  };
+};
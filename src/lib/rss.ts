@@ -0,0 +1,114 @@
+import { decodeEntities, htmlToText } from '@/lib/html-text';
+import { cachedGet } from '@/lib/http-cache';
+import { parseFeedRating } from '@/lib/ratings';
+import { Review, ReviewInput, formatFieldError, validateReviews } from '@/lib/schema';
+import { localeFromUrl, topicIdFromUrl } from '@/lib/wporg';
+
+// Parser for the wordpress.org review RSS feed (/support/{plugin|theme}/{slug}/reviews/feed/)
+
+// Cached feeds parsed by an older version of parseReviewFeed are fetched again
+const FEED_PARSER_VERSION = 3;
+
+export interface ReviewFeed {
+  reviews: Review[];
+  // <item> count before parsing, to tell an empty feed from one we failed to read
+  itemCount: number;
+}
+
+const parseFeedItem = (item: Element): ReviewInput | null => {
+  // Extract title
+  const titleEl = item.querySelector('title');
+  const title = decodeEntities(titleEl?.textContent?.trim() || '');
+  
+  // Extract content/description, keeping its paragraphs
+  const descEl = item.querySelector('description');
+  const description = descEl?.textContent?.trim() || '';
+  
+  // Read the "Rating: N stars" and "Replies: N" lines before they're stripped below
+  const rating = parseFeedRating(description);
+  const repliesMatch = description.replace(/<[^>]*>/g, ' ').match(/Replies:\s*(\d+)/i);
+  
+  const content = (description ? htmlToText(description) : title)
+    .replace(/Replies:\s*\d+\s*Rating:\s*\d+\s*stars?/gi, '') // Remove "Replies: X Rating: X stars"
+    .replace(/Rating:\s*\d+\s*stars?\s*Replies:\s*\d+/gi, '') // Remove "Rating: X stars Replies: X"
+    .replace(/^(Replies:\s*\d+|Rating:\s*\d+\s*stars?)$/gim, '') // Or the same on lines of their own
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  
+  // Extract author
+  const authorEl = item.querySelector('dc\\:creator, creator');
+  const author = decodeEntities(authorEl?.textContent?.trim() || '') || 'Anonymous';
+  
+  // Extract date; without a readable pubDate the fetch time stands in, flagged as estimated
+  const dateEl = item.querySelector('pubDate');
+  const pubDate = new Date(dateEl?.textContent?.trim() || '');
+  const dateEstimated = isNaN(pubDate.getTime());
+  const date = (dateEstimated ? new Date() : pubDate).toISOString();
+  
+  // Extract link
+  const linkEl = item.querySelector('link');
+  const reviewUrl = linkEl?.textContent?.trim() || '';
+  
+  // Stable ID from the topic URL (or guid) so refreshes upsert instead of duplicating
+  const guidEl = item.querySelector('guid');
+  const id = topicIdFromUrl(reviewUrl) || topicIdFromUrl(guidEl?.textContent?.trim()) || undefined;
+  
+  if (!content || content.length <= 10) return null;
+
+  return {
+    id,
+    date,
+    dateEstimated: dateEstimated || undefined,
+    rating,
+    content,
+    author: author.substring(0, 100),
+    reviewUrl,
+    title: title.substring(0, 200),
+    source: 'rss',
+    locale: localeFromUrl(reviewUrl),
+    replyCount: repliesMatch ? parseInt(repliesMatch[1], 10) : undefined
+  };
+};
+
+export const parseReviewFeed = (xmlText: string): ReviewFeed => {
+  // Parse XML content
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(xmlText, 'text/xml');
+  
+  // Check for parsing errors
+  const parseError = xmlDoc.querySelector('parsererror');
+  if (parseError) {
+    throw new Error('Failed to parse RSS feed XML');
+  }
+  
+  const items = xmlDoc.querySelectorAll('item');
+  const reviews: ReviewInput[] = [];
+  
+  console.log(`Found ${items.length} items in RSS feed`);
+  
+  items.forEach((item, index) => {
+    try {
+      const review = parseFeedItem(item);
+      if (review) {
+        reviews.push(review);
+      }
+    } catch (error) {
+      console.warn(`Error parsing RSS item ${index}:`, error);
+    }
+  });
+  
+  const { reviews: validReviews, errors } = validateReviews(reviews);
+  errors.forEach(fieldError => console.warn(`Rejected RSS item: ${formatFieldError(fieldError)}`));
+  
+  console.log(`Successfully parsed ${validReviews.length} reviews from RSS feed`);
+  return { reviews: validReviews, itemCount: items.length };
+};
+
+// Conditional request: an unchanged feed is served from the cache without re-parsing
+export const fetchReviewFeed = (feedUrl: string, signal?: AbortSignal): Promise<ReviewFeed> =>
+  cachedGet(feedUrl, { accept: 'application/rss+xml, application/xml, text/xml, */*', signal }, async response => {
+    const xmlText = await response.text();
+    console.log('Received XML data, length:', xmlText.length);
+
+    return parseReviewFeed(xmlText);
+  }, FEED_PARSER_VERSION);
@@ -0,0 +1,44 @@
+import { PluginData } from '@/lib/schema';
+
+// Background refresh timing. Intervals are in minutes; 0 turns auto-refresh off.
+
+export const REFRESH_INTERVAL_OPTIONS = [
+  { minutes: 0, label: 'Off' },
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 30, label: 'Every 30 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Every day' },
+];
+
+// Failed refreshes are retried later and later, but never less often than daily
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+// The last refresh that didn't update the plugin (it failed or was cancelled)
+export interface RefreshAttempt {
+  at: string;
+  // Failures in a row, 0 if the attempt was cancelled
+  failures: number;
+}
+
+// The plugin's own interval wins over the global one
+export const refreshIntervalFor = (plugin: PluginData, globalMinutes: number) =>
+  plugin.refreshIntervalMinutes ?? globalMinutes;
+
+// When the plugin should next be refreshed, or null if auto-refresh is off.
+// The interval doubles for every failure in a row.
+export const nextRefreshDue = (plugin: PluginData, globalMinutes: number, attempt?: RefreshAttempt): Date | null => {
+  const interval = refreshIntervalFor(plugin, globalMinutes);
+  if (interval <= 0) return null;
+
+  let base = new Date(plugin.lastUpdated).getTime();
+  let delay = interval;
+  if (attempt) {
+    base = Math.max(base, new Date(attempt.at).getTime());
+    delay = Math.min(interval * 2 ** attempt.failures, Math.max(interval, MAX_BACKOFF_MINUTES));
+  }
+  return new Date(base + delay * 60_000);
+};
+
+export const formatIntervalLabel = (minutes: number) =>
+  REFRESH_INTERVAL_OPTIONS.find(option => option.minutes === minutes)?.label || `Every ${minutes} minutes`;
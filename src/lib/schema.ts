@@ -0,0 +1,212 @@
+import { z } from 'zod';
+
+// Shared domain model for reviews and tracked plugins. Every fetcher, the
+// uploader and the persistence layer validate against these schemas.
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+// Locale sites are named by subdomain: "de", "ja", "pt-br"...
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z]{2,4})?$/;
+
+// Key used for reviews that arrive without an id (older exports, HTML scraper)
+export const legacyReviewKey = (review: { author?: string; date?: string; content?: string }) =>
+  `${review.author}-${review.date}-${review.content.substring(0, 50)}`;
+
+// An earlier version of a review, kept when the reviewer edits it
+export const reviewRevisionSchema = z.object({
+  content: z.string(),
+  title: z.string().optional(),
+  rating: z.number().int().min(1).max(5).nullable(),
+  // When a newer version replaced this one
+  replacedAt: z.string().refine(isValidDate, { message: 'Invalid date' }),
+});
+
+// One reply in a review thread
+export const threadReplySchema = z.object({
+  author: z.string(),
+  postedAt: z.string().refine(isValidDate, { message: 'Invalid date' }).nullable(),
+  // Shown with a "Plugin Author", "Plugin Contributor" or "Plugin Support" badge
+  developer: z.boolean(),
+  content: z.string().optional(),
+});
+
+// Who answered a review thread and when, read from the topic page
+export const reviewThreadSchema = z.object({
+  // The reply count this was read at; a different count means it's out of date
+  replyCount: z.number().int().nonnegative(),
+  firstReplyAt: z.string().refine(isValidDate, { message: 'Invalid date' }).optional(),
+  // A plugin author, contributor or support rep replied
+  developerReplied: z.boolean(),
+  developerReplyAt: z.string().refine(isValidDate, { message: 'Invalid date' }).optional(),
+  // The complete review as posted, untruncated and with its paragraphs
+  content: z.string().optional(),
+  // When the review was posted, read from the lead post
+  postedAt: z.string().refine(isValidDate, { message: 'Invalid date' }).optional(),
+  replies: z.array(threadReplySchema).optional(),
+  checkedAt: z.string().refine(isValidDate, { message: 'Invalid date' }),
+});
+
+export const reviewSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    // ISO timestamp (older copies stored YYYY-MM-DD)
+    date: z.string().refine(isValidDate, { message: 'Invalid date' }),
+    // The date was worked out from text like "3 months ago" and may be off
+    dateEstimated: z.boolean().optional(),
+    // null when the source didn't expose a readable rating
+    rating: z.number().int().min(1).max(5).nullable(),
+    content: z.string(),
+    author: z.string().min(1),
+    reviewUrl: z.string().optional(),
+    title: z.string().optional(),
+    // Which fetch path produced the stored copy
+    source: z.enum(['rss', 'html']),
+    // Earlier versions, oldest first
+    revisions: z.array(reviewRevisionSchema).optional(),
+    // Replies in the thread, as the feed or listing reported it
+    replyCount: z.number().int().nonnegative().optional(),
+    thread: reviewThreadSchema.optional(),
+    // Locale forum the review was posted on; missing for the main forum
+    locale: z.string().regex(LOCALE_PATTERN).optional(),
+    // Set when the review was found deleted or hidden on wordpress.org
+    removedAt: z.string().refine(isValidDate, { message: 'Invalid date' }).optional(),
+  })
+  .transform((review) => ({ ...review, id: review.id ?? legacyReviewKey(review) }));
+
+// Plugin or theme details from the wordpress.org info APIs, refreshed with the reviews
+export const pluginMetadataSchema = z.object({
+  version: z.string().optional(),
+  author: z.string().optional(),
+  authorProfile: z.string().optional(),
+  activeInstalls: z.number().int().nonnegative().optional(),
+  // Average rating out of 100, as the API reports it
+  rating: z.number().min(0).max(100).optional(),
+  // Official star breakdown: number of ratings per star, keyed "1" to "5"
+  ratings: z.record(z.number().int().nonnegative()).optional(),
+  numRatings: z.number().int().nonnegative().optional(),
+  requiresWordPress: z.string().optional(),
+  testedUpTo: z.string().optional(),
+  requiresPhp: z.string().optional(),
+  // When the plugin itself was last released on wordpress.org
+  lastUpdated: z.string().refine(isValidDate, { message: 'Invalid date' }).optional(),
+  icons: z.record(z.string()).optional(),
+  banners: z.record(z.string()).optional(),
+  // Themes have a screenshot instead of icons and banners
+  screenshot: z.string().optional(),
+  fetchedAt: z.string().refine(isValidDate, { message: 'Invalid date' }),
+});
+
+// What a tracked item is on wordpress.org; items stored before themes were supported are plugins
+export const itemTypeSchema = z.enum(['plugin', 'theme']);
+
+export const pluginDataSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, { message: 'Invalid plugin slug' }),
+  type: itemTypeSchema.optional(),
+  name: z.string().optional(),
+  reviews: z.array(reviewSchema),
+  lastUpdated: z.string().refine(isValidDate, { message: 'Invalid date' }),
+  totalReviews: z.number().int().nonnegative(),
+  // Auto-refresh interval in minutes (0 = off); the global setting applies when missing
+  refreshIntervalMinutes: z.number().int().nonnegative().optional(),
+  metadata: pluginMetadataSchema.optional(),
+  // Locale forums tracked as well as the main one
+  locales: z.array(z.string().regex(LOCALE_PATTERN, { message: 'Invalid locale' })).optional(),
+});
+
+export const pluginListSchema = z.array(pluginDataSchema);
+
+// A topic from a plugin's or theme's general support forum, stored beside its reviews
+export const supportThreadSchema = z.object({
+  // Slug of the tracked plugin or theme
+  slug: z.string().min(1),
+  // Topic id, as for reviews
+  id: z.string().min(1),
+  title: z.string(),
+  author: z.string().min(1),
+  url: z.string(),
+  // Locale forum, as for reviews
+  locale: z.string().regex(LOCALE_PATTERN).optional(),
+  postedAt: z.string().refine(isValidDate, { message: 'Invalid date' }),
+  // postedAt was worked out from text like "3 days ago" and may be off
+  dateEstimated: z.boolean().optional(),
+  // The opening post as text; only the feed carries it
+  content: z.string().optional(),
+  replyCount: z.number().int().nonnegative().optional(),
+  // null until a listing page has shown the topic's status (the feed doesn't)
+  resolved: z.boolean().nullable(),
+  // When a listing page last showed the status; older topics drop off the pages read
+  statusCheckedAt: z.string().refine(isValidDate, { message: 'Invalid date' }).optional(),
+  lastActivityAt: z.string().refine(isValidDate, { message: 'Invalid date' }).optional(),
+  firstSeenAt: z.string().refine(isValidDate, { message: 'Invalid date' }),
+});
+
+// What fetchers produce before validation (id may still be missing)
+export type ReviewInput = z.input<typeof reviewSchema>;
+export type Review = z.output<typeof reviewSchema>;
+export type PluginData = z.output<typeof pluginDataSchema>;
+export type PluginMetadata = z.output<typeof pluginMetadataSchema>;
+export type ItemType = z.output<typeof itemTypeSchema>;
+export type SupportThread = z.output<typeof supportThreadSchema>;
+export type ReviewSource = Review['source'];
+export type ReviewRevision = z.output<typeof reviewRevisionSchema>;
+export type ReviewThread = z.output<typeof reviewThreadSchema>;
+export type ThreadReply = z.output<typeof threadReplySchema>;
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  fieldErrors: FieldError[];
+
+  constructor(fieldErrors: FieldError[]) {
+    super(fieldErrors.map(formatFieldError).join('; '));
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// ['plugins', 0, 'reviews', 3, 'rating'] -> "plugins[0].reviews[3].rating"
+const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+
+export const formatFieldError = (error: FieldError) =>
+  error.path ? `${error.path}: ${error.message}` : error.message;
+
+export const toFieldErrors = (error: z.ZodError, prefix: (string | number)[] = []): FieldError[] =>
+  error.issues.map(issue => ({
+    path: formatPath([...prefix, ...issue.path]),
+    message: issue.message,
+  }));
+
+export const itemType = (plugin: Pick<PluginData, 'type'>): ItemType => plugin.type ?? 'plugin';
+
+// Validates a list of fetched reviews, keeping the valid ones and reporting the rest
+export const validateReviews = (input: unknown[]) => {
+  const reviews: Review[] = [];
+  const errors: FieldError[] = [];
+
+  input.forEach((item, index) => {
+    const result = reviewSchema.safeParse(item);
+    if (result.success) {
+      reviews.push(result.data);
+    } else {
+      errors.push(...toFieldErrors(result.error, [index]));
+    }
+  });
+
+  return { reviews, errors };
+};
+
+// Validates a full plugin list, throwing a ValidationError if anything is malformed
+export const validatePlugins = (input: unknown): PluginData[] => {
+  const result = pluginListSchema.safeParse(input);
+  if (!result.success) {
+    throw new ValidationError(toFieldErrors(result.error));
+  }
+  return result.data;
+};
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+// App settings, kept in localStorage since they're small and read synchronously
+// by the fetch layer. Missing keys fall back to the defaults below.
+
+const SETTINGS_KEY = 'wordpress-plugin-tracker-settings';
+
+export const proxyConfigSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  // Proxy URL with a {url} placeholder for the encoded target URL
+  template: z.string().refine(template => template.includes('{url}'), { message: 'Template must contain {url}' }),
+  enabled: z.boolean(),
+  // Passes conditional request headers (If-None-Match etc.) through to wordpress.org
+  forwardsHeaders: z.boolean().optional(),
+  // Marks responses from wordpress.org with X-Upstream-Status (server/wporg-proxy.mjs).
+  // A response without it means the proxy isn't mounted where the app is served.
+  marksUpstreamStatus: z.boolean().optional(),
+});
+
+export const settingsSchema = z.object({
+  // Tried in order until one responds
+  proxies: z.array(proxyConfigSchema),
+  // How many plugins are fetched at the same time
+  fetchConcurrency: z.number().int().min(1).max(6),
+  // Background refresh interval in minutes for plugins without their own; 0 = off
+  autoRefreshMinutes: z.number().int().nonnegative(),
+});
+
+export type ProxyConfig = z.infer<typeof proxyConfigSchema>;
+export type Settings = z.infer<typeof settingsSchema>;
+
+export const DEFAULT_PROXIES: ProxyConfig[] = [
+  // Served by server/wporg-proxy.mjs, mounted on the Vite dev and preview servers.
+  // Where it isn't mounted, requests fall through to the next enabled proxy.
+  { id: 'local', label: 'Local proxy', template: '/wporg-proxy?url={url}', enabled: true, forwardsHeaders: true, marksUpstreamStatus: true },
+  // Third parties see every URL fetched through them, so these are opt-in
+  { id: 'allorigins', label: 'allorigins.win', template: 'https://api.allorigins.win/raw?url={url}', enabled: false },
+  { id: 'corsproxy', label: 'corsproxy.io', template: 'https://corsproxy.io/?{url}', enabled: false },
+  { id: 'codetabs', label: 'codetabs.com', template: 'https://api.codetabs.com/v1/proxy?quest={url}', enabled: false },
+];
+
+// Copies of server/wporg-proxy.mjs, wherever they run, forward conditional
+// headers and mark the upstream status; other proxies keep their own flags
+export const withProxyFlags = (proxy: ProxyConfig): ProxyConfig =>
+  /\/wporg-proxy\?url=\{url\}$/.test(proxy.template)
+    ? { ...proxy, forwardsHeaders: true, marksUpstreamStatus: true }
+    : proxy;
+
+export const DEFAULT_SETTINGS: Settings = {
+  proxies: DEFAULT_PROXIES,
+  fetchConcurrency: 2,
+  // Background polling is opt-in
+  autoRefreshMinutes: 0,
+};
+
+let currentSettings: Settings | null = null;
+const listeners = new Set<() => void>();
+
+const readStoredSettings = (): Settings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+
+    const result = settingsSchema.safeParse({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) });
+    // Proxies saved before the flags existed get them here
+    if (result.success) return { ...result.data, proxies: result.data.proxies.map(withProxyFlags) };
+    console.warn('Ignoring invalid stored settings:', result.error.issues);
+  } catch (error) {
+    console.warn('Failed to read stored settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+export const getSettings = (): Settings => {
+  if (!currentSettings) {
+    currentSettings = readStoredSettings();
+  }
+  return currentSettings;
+};
+
+export const updateSettings = (changes: Partial<Settings>) => {
+  currentSettings = settingsSchema.parse({ ...getSettings(), ...changes });
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(currentSettings));
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,51 @@
+import { starRating } from '@/lib/plugin-info';
+import { PluginData } from '@/lib/schema';
+
+// Point-in-time plugin metrics, appended on every refresh so trends (rating
+// over a quarter, install growth) can be charted and exported later.
+
+export interface MetricSnapshot {
+  slug: string;
+  takenAt: string;
+  // Average of the live stored reviews with a known rating
+  averageRating: number | null;
+  // Live reviews; removed ones are left out
+  storedReviews: number;
+  // From the plugins API, when it was available at the time
+  officialRating?: number;
+  numRatings?: number;
+  activeInstalls?: number;
+  version?: string;
+}
+
+export const createSnapshot = (plugin: PluginData): MetricSnapshot => {
+  const liveReviews = plugin.reviews.filter(review => !review.removedAt);
+  const ratings = liveReviews.map(review => review.rating).filter((rating): rating is number => rating !== null);
+  const metadata = plugin.metadata;
+
+  return {
+    slug: plugin.slug,
+    takenAt: new Date().toISOString(),
+    averageRating: ratings.length > 0
+      ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 100) / 100
+      : null,
+    storedReviews: liveReviews.length,
+    officialRating: metadata ? starRating(metadata) ?? undefined : undefined,
+    numRatings: metadata?.numRatings,
+    activeInstalls: metadata?.activeInstalls,
+    version: metadata?.version,
+  };
+};
+
+const CSV_COLUMNS: (keyof MetricSnapshot)[] = [
+  'slug', 'takenAt', 'averageRating', 'storedReviews', 'officialRating', 'numRatings', 'activeInstalls', 'version',
+];
+
+const csvValue = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const snapshotsToCsv = (snapshots: MetricSnapshot[]) =>
+  [CSV_COLUMNS.join(','), ...snapshots.map(snapshot => CSV_COLUMNS.map(column => csvValue(snapshot[column])).join(','))].join('\n');
@@ -0,0 +1,218 @@
+import { loadSupportThreads, saveSupportThreads } from '@/lib/db';
+import { decodeEntities, htmlToText } from '@/lib/html-text';
+import { httpGet } from '@/lib/http';
+import { cachedGet } from '@/lib/http-cache';
+import { parseNumber, parseTopicDate } from '@/lib/review-pages';
+import { FieldError, ItemType, SupportThread, formatFieldError, supportThreadSchema, toFieldErrors } from '@/lib/schema';
+import {
+  forumOrigin,
+  localeFromUrl,
+  localeLabel,
+  parseForumDate,
+  supportFeedUrl,
+  supportPageUrl,
+  topicIdFromUrl,
+} from '@/lib/wporg';
+
+// The general support forum (/support/{plugin|theme}/{slug}/), tracked beside the
+// reviews. The feed has the newest topics with exact dates and their opening
+// post; the first listing page adds resolved status, reply counts and last
+// activity, which the feed doesn't carry.
+
+const SUPPORT_FEED_PARSER_VERSION = 1;
+
+// Listing pages read per refresh. Page 1 always; the others only while stored
+// unresolved topics haven't shown up yet, so their status can change.
+export const MAX_SUPPORT_STATUS_PAGES = 5;
+
+type ParsedThread = Omit<SupportThread, 'firstSeenAt'>;
+
+// Some topic titles carry the status as a "[Resolved]" prefix
+const RESOLVED_PREFIX = /^\s*\[resolved\]\s*/i;
+
+const validateThreads = (input: unknown[], now: string) => {
+  const threads: ParsedThread[] = [];
+  const errors: FieldError[] = [];
+  input.forEach((item, index) => {
+    const result = supportThreadSchema.safeParse({ ...(item as object), firstSeenAt: now });
+    if (result.success) {
+      const { firstSeenAt, ...thread } = result.data;
+      threads.push(thread);
+    } else {
+      errors.push(...toFieldErrors(result.error, [index]));
+    }
+  });
+  return { threads, errors };
+};
+
+const parseFeedItem = (slug: string, item: Element) => {
+  const rawTitle = decodeEntities(item.querySelector('title')?.textContent?.trim() || '');
+  const url = item.querySelector('link')?.textContent?.trim() || '';
+  const pubDate = new Date(item.querySelector('pubDate')?.textContent?.trim() || '');
+  const dateEstimated = isNaN(pubDate.getTime());
+  const description = item.querySelector('description')?.textContent?.trim() || '';
+  const repliesMatch = description.replace(/<[^>]*>/g, ' ').match(/Replies:\s*(\d+)/i);
+
+  return {
+    slug,
+    id: topicIdFromUrl(url) || topicIdFromUrl(item.querySelector('guid')?.textContent?.trim()),
+    locale: localeFromUrl(url),
+    title: rawTitle.replace(RESOLVED_PREFIX, ''),
+    author: decodeEntities(item.querySelector('dc\\:creator, creator')?.textContent?.trim() || '') || 'Anonymous',
+    url,
+    postedAt: (dateEstimated ? new Date() : pubDate).toISOString(),
+    dateEstimated: dateEstimated || undefined,
+    content: htmlToText(description).replace(/^Replies:\s*\d+\s*/i, '') || undefined,
+    replyCount: repliesMatch ? parseInt(repliesMatch[1], 10) : undefined,
+    resolved: RESOLVED_PREFIX.test(rawTitle) ? true : null,
+  };
+};
+
+export const parseSupportFeed = (slug: string, xmlText: string): ParsedThread[] => {
+  const doc = new DOMParser().parseFromString(xmlText, 'text/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Failed to parse support feed XML');
+  }
+
+  const { threads, errors } = validateThreads(
+    Array.from(doc.querySelectorAll('item')).map(item => parseFeedItem(slug, item)),
+    new Date().toISOString()
+  );
+  errors.forEach(fieldError => console.warn(`Rejected support feed item: ${formatFieldError(fieldError)}`));
+  return threads;
+};
+
+const parseListingTopic = (slug: string, topicEl: Element, origin: string) => {
+  const link = topicEl.querySelector('.bbp-topic-title a.bbp-topic-permalink, .bbp-topic-title a');
+  const href = link?.getAttribute('href') || '';
+  const url = href.startsWith('http') ? href : `${origin}${href}`;
+  const rawTitle = link?.textContent?.trim() || '';
+  const { date, dateEstimated } = parseTopicDate(topicEl);
+  const replyCount = parseNumber(topicEl.querySelector('.bbp-topic-reply-count')?.textContent);
+  const freshness = topicEl.querySelector('.bbp-topic-freshness a[title], .bbp-topic-freshness a');
+  const author = topicEl.querySelector('.bbp-topic-started-by .bbp-author-name, .bbp-topic-started-by')
+    ?.textContent?.trim().replace('Started by:', '').trim();
+
+  return {
+    slug,
+    id: topicIdFromUrl(url),
+    locale: localeFromUrl(url),
+    title: rawTitle.replace(RESOLVED_PREFIX, ''),
+    author: author || 'Anonymous',
+    url,
+    postedAt: date,
+    dateEstimated: dateEstimated || undefined,
+    replyCount: isNaN(replyCount) ? undefined : replyCount,
+    // The listing marks resolved topics with a check icon; anything else is open
+    resolved: !!topicEl.querySelector('.bbp-topic-title .resolved') || RESOLVED_PREFIX.test(rawTitle),
+    statusCheckedAt: new Date().toISOString(),
+    lastActivityAt: parseForumDate(freshness?.getAttribute('title')) || undefined,
+  };
+};
+
+export const parseSupportPage = (slug: string, html: string, origin = forumOrigin()): ParsedThread[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const topics = Array.from(new Set(doc.querySelectorAll('ul[id^="bbp-topic-"], .bbp-topic')))
+    // Sticky announcements from the author aren't support requests
+    .filter(topicEl => !topicEl.classList.contains('sticky') && !topicEl.classList.contains('super-sticky'));
+
+  const { threads, errors } = validateThreads(
+    topics.map(topicEl => parseListingTopic(slug, topicEl, origin)),
+    new Date().toISOString()
+  );
+  errors.forEach(fieldError => console.warn(`Rejected support topic: ${formatFieldError(fieldError)}`));
+  return threads;
+};
+
+// Combines a stored thread with a fetched copy: known values are never replaced
+// by unknown ones, and an estimated date never replaces the stored one
+export const mergeSupportThread = (existing: SupportThread | undefined, incoming: ParsedThread): SupportThread => {
+  if (!existing) return { ...incoming, firstSeenAt: new Date().toISOString() };
+  const keepDate = !!incoming.dateEstimated;
+  return {
+    ...existing,
+    title: incoming.title || existing.title,
+    author: incoming.author === 'Anonymous' ? existing.author : incoming.author,
+    url: incoming.url || existing.url,
+    postedAt: keepDate ? existing.postedAt : incoming.postedAt,
+    dateEstimated: keepDate ? existing.dateEstimated : undefined,
+    content: incoming.content ?? existing.content,
+    replyCount: incoming.replyCount ?? existing.replyCount,
+    resolved: incoming.resolved ?? existing.resolved,
+    statusCheckedAt: incoming.statusCheckedAt ?? existing.statusCheckedAt,
+    lastActivityAt: incoming.lastActivityAt ?? existing.lastActivityAt,
+  };
+};
+
+// Feed first, then the listing pages so their status and counts win. Pages after
+// the first are read while any of `unresolvedIds` is still missing from them.
+export const fetchSupportThreads = async (
+  slug: string,
+  type: ItemType,
+  signal?: AbortSignal,
+  locale?: string,
+  unresolvedIds: Set<string> = new Set()
+): Promise<ParsedThread[]> => {
+  const threads: ParsedThread[] = [];
+  const failures: string[] = [];
+
+  try {
+    threads.push(...await cachedGet(
+      supportFeedUrl(slug, type, locale),
+      { accept: 'application/rss+xml, application/xml, text/xml, */*', signal },
+      async response => parseSupportFeed(slug, await response.text()),
+      SUPPORT_FEED_PARSER_VERSION
+    ));
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    failures.push(`Feed failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const missing = new Set(unresolvedIds);
+  for (let page = 1; page <= MAX_SUPPORT_STATUS_PAGES && (page === 1 || missing.size > 0); page++) {
+    try {
+      const response = await httpGet(supportPageUrl(slug, page, type, locale), { accept: 'text/html', signal });
+      const listed = parseSupportPage(slug, await response.text(), forumOrigin(locale));
+      threads.push(...listed);
+      listed.forEach(thread => missing.delete(thread.id));
+      if (listed.length === 0) break;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Later pages only refresh older statuses; page 1 failing counts as the listing failing
+      if (page === 1) failures.push(`Listing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      else console.warn(`Support listing page ${page} for ${slug} failed:`, error);
+      break;
+    }
+  }
+
+  if (failures.length === 2) throw new Error(failures.join('; '));
+  failures.forEach(failure => console.warn(`Support forum for ${slug} on ${localeLabel(locale)}: ${failure}`));
+  return threads;
+};
+
+// Fetches the newest support topics and merges them into the stored ones.
+// Returns how many topics were written.
+export const refreshSupportThreads = async (slug: string, type: ItemType, signal?: AbortSignal, locale?: string) => {
+  const storedThreads = await loadSupportThreads(slug);
+  const unresolvedIds = new Set(storedThreads
+    .filter(thread => thread.resolved === false && thread.locale === locale)
+    .map(thread => thread.id));
+  const fetched = await fetchSupportThreads(slug, type, signal, locale, unresolvedIds);
+  const stored = new Map(storedThreads.map(thread => [thread.id, thread]));
+  const changed = new Map<string, SupportThread>();
+
+  fetched.forEach(incoming => {
+    const merged = mergeSupportThread(changed.get(incoming.id) || stored.get(incoming.id), incoming);
+    changed.set(incoming.id, merged);
+  });
+
+  await saveSupportThreads(Array.from(changed.values()));
+  return changed.size;
+};
+
+export const threadAgeDays = (thread: SupportThread, now = Date.now()) =>
+  (now - new Date(thread.postedAt).getTime()) / 86_400_000;
+
+// Open topics that have waited longer than `days`
+export const isStaleUnresolved = (thread: SupportThread, days: number, now = Date.now()) =>
+  thread.resolved === false && threadAgeDays(thread, now) > days;
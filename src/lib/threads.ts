@@ -0,0 +1,140 @@
+import { htmlToText } from '@/lib/html-text';
+import { httpGet } from '@/lib/http';
+import { hasEstimatedDate } from '@/lib/reviews';
+import { PluginData, Review, ReviewThread, ThreadReply } from '@/lib/schema';
+import { parseForumDate } from '@/lib/wporg';
+
+// Reads review threads (topic pages): the complete review and its replies, and
+// who replied when. Only threads whose reply count changed since the last check
+// are fetched again.
+
+// Topic pages read per refresh, on top of the review fetch itself
+const MAX_THREADS_PER_REFRESH = 10;
+
+// Badges on replies from the team: "Plugin Author", "Theme Support" and so on
+const DEVELOPER_BADGE = /(plugin|theme)\s+(author|contributor|support)/i;
+
+const isDeveloperReply = (replyEl: Element) =>
+  Array.from(replyEl.querySelectorAll('.author-badge, .bbp-author-role, [class*="author-badge"]'))
+    .some(badge => DEVELOPER_BADGE.test(`${badge.textContent} ${badge.getAttribute('title') || ''}`));
+
+const parsePostDate = (postEl: Element) => {
+  const time = postEl.querySelector('time[datetime]');
+  if (time) {
+    const date = new Date(time.getAttribute('datetime'));
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  const dateLink = postEl.querySelector(
+    '.bbp-reply-post-date a[title], .bbp-topic-post-date a[title], .bbp-reply-post-date, .bbp-topic-post-date'
+  );
+  return parseForumDate(dateLink?.getAttribute('title')) || parseForumDate(dateLink?.textContent);
+};
+
+// Post HTML as text, without the star rating wordpress.org puts above a review
+const postText = (contentEl: Element | null) => {
+  if (!contentEl) return undefined;
+  const copy = contentEl.cloneNode(true) as Element;
+  copy.querySelectorAll('.wporg-ratings, .review-ratings').forEach(el => el.remove());
+  return htmlToText(copy.innerHTML) || undefined;
+};
+
+// The review itself, in full, and when it was posted
+export const parseLeadPost = (doc: Document) => {
+  const leadEl = doc.querySelector('.bbp-lead-topic, .type-topic');
+  return {
+    content: postText(doc.querySelector('.bbp-lead-topic .bbp-topic-content, .type-topic .bbp-topic-content')),
+    postedAt: leadEl ? parsePostDate(leadEl) || undefined : undefined,
+  };
+};
+
+// Replies in page order; the lead post (the review itself) is not included
+export const parseThreadReplies = (doc: Document): ThreadReply[] => {
+  const replyElements = new Set(doc.querySelectorAll('.type-reply, .bbp-replies .reply'));
+  return Array.from(replyElements).map(replyEl => ({
+    author: replyEl.querySelector('.bbp-author-name')?.textContent?.trim() || 'Anonymous',
+    postedAt: parsePostDate(replyEl),
+    developer: isDeveloperReply(replyEl),
+    content: postText(replyEl.querySelector('.bbp-reply-content')),
+  }));
+};
+
+const earliest = (dates: (string | null)[]) =>
+  dates.filter((date): date is string => !!date).sort()[0];
+
+export const summarizeThread = (
+  replies: ThreadReply[],
+  { content, postedAt }: { content?: string; postedAt?: string } = {}
+): ReviewThread => {
+  const developerReplies = replies.filter(reply => reply.developer);
+  return {
+    replyCount: replies.length,
+    firstReplyAt: earliest(replies.map(reply => reply.postedAt)),
+    developerReplied: developerReplies.length > 0,
+    developerReplyAt: earliest(developerReplies.map(reply => reply.postedAt)),
+    content,
+    postedAt,
+    replies,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+export const parseThread = (html: string): ReviewThread => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return summarizeThread(parseThreadReplies(doc), parseLeadPost(doc));
+};
+
+export const fetchReviewThread = async (topicUrl: string, signal?: AbortSignal): Promise<ReviewThread> => {
+  const response = await httpGet(topicUrl, { accept: 'text/html', signal });
+  return parseThread(await response.text());
+};
+
+// Reviews with replies we haven't read, or more replies than when we last looked
+export const needsThreadCheck = (review: Review) =>
+  !review.removedAt &&
+  !!review.reviewUrl &&
+  (review.thread
+    ? review.replyCount !== undefined && review.replyCount !== review.thread.replyCount
+    : review.replyCount === undefined || review.replyCount > 0);
+
+// Checks a limited number of threads, newest reviews first. Failures are skipped
+// and picked up again on a later refresh.
+export const fetchReviewThreads = async (
+  reviews: Review[],
+  signal?: AbortSignal,
+  limit = MAX_THREADS_PER_REFRESH
+): Promise<Record<string, ReviewThread>> => {
+  const threads: Record<string, ReviewThread> = {};
+  const candidates = reviews
+    .filter(needsThreadCheck)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, limit);
+
+  for (const review of candidates) {
+    try {
+      threads[review.id] = await fetchReviewThread(review.reviewUrl, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to read replies for ${review.reviewUrl}:`, error);
+    }
+  }
+  return threads;
+};
+
+// Stores each thread against the reply count the feed or listing reported, so a
+// thread is only read again once that count moves. An estimated review date is
+// replaced by the lead post's timestamp.
+export const applyReviewThreads = (plugin: PluginData, threads: Record<string, ReviewThread>): PluginData => {
+  if (Object.keys(threads).length === 0) return plugin;
+  return {
+    ...plugin,
+    reviews: plugin.reviews.map(review => {
+      const thread = threads[review.id];
+      if (!thread) return review;
+      const replyCount = review.replyCount ?? thread.replyCount;
+      const resolved = thread.postedAt && hasEstimatedDate(review)
+        ? { date: thread.postedAt, dateEstimated: undefined }
+        : {};
+      return { ...review, ...resolved, replyCount, thread: { ...thread, replyCount } };
+    }),
+  };
+};
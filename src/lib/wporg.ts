@@ -0,0 +1,154 @@
+import { ItemType, LOCALE_PATTERN } from '@/lib/schema';
+
+// Helpers for wordpress.org support forum and API URLs. Plugins and themes have
+// the same forum layout under /support/plugin/ and /support/theme/, and locale
+// sites (de.wordpress.org, ja.wordpress.org, ...) have their own forums with
+// the same layout again.
+
+export const forumOrigin = (locale?: string) =>
+  locale ? `https://${locale}.wordpress.org` : 'https://wordpress.org';
+
+// How a locale forum is labelled; no locale is the main English forum
+export const localeLabel = (locale?: string) => (locale ? `${locale}.wordpress.org` : 'wordpress.org');
+
+export const reviewFeedUrl = (slug: string, type: ItemType = 'plugin', locale?: string) =>
+  `${forumOrigin(locale)}/support/${type}/${slug}/reviews/feed/`;
+
+// Review listing pages; page 1 has no /page/ segment
+export const reviewPageUrl = (slug: string, page: number, type: ItemType = 'plugin', locale?: string) =>
+  page > 1
+    ? `${forumOrigin(locale)}/support/${type}/${slug}/reviews/page/${page}/`
+    : `${forumOrigin(locale)}/support/${type}/${slug}/reviews/`;
+
+// General support forum (everything that isn't a review)
+export const supportFeedUrl = (slug: string, type: ItemType = 'plugin', locale?: string) =>
+  `${forumOrigin(locale)}/support/${type}/${slug}/feed/`;
+
+export const supportPageUrl = (slug: string, page: number, type: ItemType = 'plugin', locale?: string) =>
+  page > 1
+    ? `${forumOrigin(locale)}/support/${type}/${slug}/page/${page}/`
+    : `${forumOrigin(locale)}/support/${type}/${slug}/`;
+
+// Fields the plugin_information call leaves out, to keep the response small
+const OMITTED_INFO_FIELDS = ['sections', 'description', 'reviews', 'screenshots', 'versions', 'contributors', 'tags', 'donate_link'];
+
+// plugins info 1.2 API; icons and active installs are opt-in fields
+export const pluginInfoUrl = (slug: string) => {
+  const params = new URLSearchParams({ action: 'plugin_information', 'request[slug]': slug });
+  ['icons', 'banners', 'active_installs'].forEach(field => params.set(`request[fields][${field}]`, '1'));
+  OMITTED_INFO_FIELDS.forEach(field => params.set(`request[fields][${field}]`, '0'));
+  return `https://api.wordpress.org/plugins/info/1.2/?${params}`;
+};
+
+// What query_plugins can search by: free text, a tag slug or an author's username
+export type PluginSearchField = 'search' | 'tag' | 'author';
+
+// query_plugins on the plugins info 1.2 API, with the fields a search result shows
+export const pluginSearchUrl = (query: string, by: PluginSearchField = 'search', perPage = 10) => {
+  const params = new URLSearchParams({ action: 'query_plugins', [`request[${by}]`]: query, 'request[per_page]': String(perPage) });
+  ['icons', 'active_installs'].forEach(field => params.set(`request[fields][${field}]`, '1'));
+  [...OMITTED_INFO_FIELDS, 'short_description', 'banners'].forEach(field => params.set(`request[fields][${field}]`, '0'));
+  return `https://api.wordpress.org/plugins/info/1.2/?${params}`;
+};
+
+// themes info 1.2 API; the rating breakdown and active installs are opt-in there too
+export const themeInfoUrl = (slug: string) => {
+  const params = new URLSearchParams({ action: 'theme_information', 'request[slug]': slug });
+  ['ratings', 'active_installs', 'last_updated', 'requires', 'requires_php'].forEach(field =>
+    params.set(`request[fields][${field}]`, '1'));
+  ['sections', 'description', 'reviews', 'versions', 'tags', 'template', 'parent'].forEach(field =>
+    params.set(`request[fields][${field}]`, '0'));
+  return `https://api.wordpress.org/themes/info/1.2/?${params}`;
+};
+
+export const pluginPageUrl = (slug: string, type: ItemType = 'plugin') => `https://wordpress.org/${type}s/${slug}/`;
+
+export interface ItemReference {
+  slug: string;
+  // Set when the input was a URL that names the directory
+  type?: ItemType;
+}
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+// Directory pages that sit where a slug would
+const RESERVED_PATHS = new Set(['browse', 'tags', 'tag', 'developers', 'author', 'search', 'commercial']);
+
+// Reads what the add form accepts: a bare slug or a directory, support forum or
+// review URL, on the main site, a locale site or wp.org.
+//   "akismet"                                                 -> { slug: "akismet" }
+//   https://wordpress.org/plugins/akismet/                    -> { slug: "akismet", type: "plugin" }
+//   wp.org/themes/astra                                       -> { slug: "astra", type: "theme" }
+//   https://de.wordpress.org/support/plugin/akismet/reviews/  -> { slug: "akismet", type: "plugin" }
+// Topic URLs don't name the item, so they give null like anything else unrecognised.
+export const parseItemReference = (text: string): ItemReference | null => {
+  const value = text.trim().toLowerCase();
+  if (SLUG_PATTERN.test(value)) return { slug: value };
+
+  const match = value.match(/^(?:https?:\/\/)?(?:[a-z-]+\.)?(?:wordpress|wp)\.org\/(?:(plugins|themes)|support\/(plugin|theme))\/([^/?#]+)/);
+  if (!match) return null;
+  let slug: string;
+  try {
+    slug = decodeURIComponent(match[3]);
+  } catch (error) {
+    return null;
+  }
+  if (!SLUG_PATTERN.test(slug) || RESERVED_PATHS.has(slug)) return null;
+  return { slug, type: (match[1] ? match[1].slice(0, -1) : match[2]) as ItemType };
+};
+
+// Entries of a pasted list, separated by newlines, commas or spaces
+export const splitItemReferences = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+// Subdomains that belong to the main site rather than a locale
+const NON_LOCALE_HOSTS = new Set(['www', 'api', 'make', 'profiles', 'developer', 'translate']);
+
+// Locale of a forum URL, or undefined for the main forum
+export const localeFromUrl = (url: string | undefined | null) => {
+  const match = url?.match(/^https?:\/\/([a-z-]+)\.wordpress\.org\//i);
+  const subdomain = match?.[1].toLowerCase();
+  return subdomain && !NON_LOCALE_HOSTS.has(subdomain) && LOCALE_PATTERN.test(subdomain) ? subdomain : undefined;
+};
+
+// Stable review id from a topic URL or RSS guid. Topic slugs are unique within a
+// forum, so the same review gets the same id from the feed and the HTML pages.
+// Locale forums are separate sites, so their ids carry the locale.
+//   https://wordpress.org/support/topic/great-plugin-123/      -> "great-plugin-123"
+//   https://wordpress.org/support/topic/great-plugin-123/#post-4 -> "great-plugin-123"
+//   https://wordpress.org/support/?post_type=topic&p=98765     -> "topic-98765"
+//   https://de.wordpress.org/support/topic/tolles-plugin/      -> "de:tolles-plugin"
+export const topicIdFromUrl = (url: string | undefined | null): string | null => {
+  if (!url) return null;
+  const locale = localeFromUrl(url);
+  const prefix = locale ? `${locale}:` : '';
+
+  const slugMatch = url.match(/\/support\/topic\/([^/?#]+)/i);
+  if (slugMatch) {
+    try {
+      return prefix + decodeURIComponent(slugMatch[1]).toLowerCase();
+    } catch (error) {
+      return prefix + slugMatch[1].toLowerCase();
+    }
+  }
+
+  const postIdMatch = url.match(/[?&]p=(\d+)/);
+  if (postIdMatch) {
+    return `${prefix}topic-${postIdMatch[1]}`;
+  }
+
+  return null;
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Forum timestamps as the support pages show them in link titles, in UTC:
+//   "March 5, 2024 at 3:12 pm" -> "2024-03-05T15:12:00.000Z"
+export const parseForumDate = (text: string | null | undefined): string | null => {
+  const match = text?.match(/([a-z]+)\s+(\d{1,2}),\s+(\d{4})\s+at\s+(\d{1,2}):(\d{2})\s*(am|pm)/i);
+  if (!match) return null;
+
+  const [, monthName, day, year, hour, minute, meridiem] = match;
+  const month = MONTHS.indexOf(monthName.toLowerCase());
+  if (month < 0) return null;
+  const hours = (Number(hour) % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  return new Date(Date.UTC(Number(year), month, Number(day), hours, Number(minute))).toISOString();
+};
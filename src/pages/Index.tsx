@@ -1,62 +1,89 @@
-import React, { useState, useEffect } from 'react';
-import { Calendar, Star, Search, Filter, Download, Trash2, RefreshCw, ExternalLink } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Calendar, Search, Filter, Download, RefreshCw, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
-import { format } from 'date-fns';
+import { endOfDay, format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
-import RssFeedFetcher from '@/components/RssFeedFetcher';
 import FileUploader from '@/components/FileUploader';
-
-interface Review {
-  date: string;
-  rating: number;
-  content: string;
-  author: string;
-  reviewUrl?: string;
-  title?: string;
-  id?: string;
-}
-
-interface PluginData {
-  slug: string;
-  name?: string; // Plugin display name
-  reviews: Review[];
-  lastUpdated: string;
-  totalReviews: number;
+import PluginListItem from '@/components/PluginListItem';
+import PluginSearch from '@/components/PluginSearch';
+import RecoveryDialog from '@/components/RecoveryDialog';
+import ResponseDashboard from '@/components/ResponseDashboard';
+import ReviewCard from '@/components/ReviewCard';
+import SettingsDialog from '@/components/SettingsDialog';
+import SupportThreadsCard from '@/components/SupportThreadsCard';
+import { useAutoRefresh } from '@/hooks/use-auto-refresh';
+import { useBackfill } from '@/hooks/use-backfill';
+import { useFetchQueue } from '@/hooks/use-fetch-queue';
+import { usePluginStore } from '@/hooks/use-plugin-store';
+import { useSettings } from '@/hooks/use-settings';
+import { appendSnapshot } from '@/lib/db';
+import { downloadFile } from '@/lib/download';
+import { createExportPayload } from '@/lib/migrations';
+import { fetchPluginInfo } from '@/lib/plugin-info';
+import { markReviewsRemoved } from '@/lib/reconcile';
+import { SourcedReviews, fetchForumReviews, recoverRatings } from '@/lib/review-sources';
+import { hasEstimatedDate, mergePluginReviews, originalRating, upsertReviews } from '@/lib/reviews';
+import { ItemType, PluginData, Review, ReviewThread, itemType } from '@/lib/schema';
+import { createSnapshot } from '@/lib/snapshots';
+import { refreshSupportThreads } from '@/lib/support';
+import { applyReviewThreads, fetchReviewThread } from '@/lib/threads';
+import { localeLabel, parseItemReference, splitItemReferences } from '@/lib/wporg';
+
+// Topic pages read per "Resolve estimated dates" run, and how many between saves
+const MAX_DATES_PER_RUN = 200;
+const DATE_BATCH_SIZE = 10;
+
+// Outcome of one entry in the add form
+interface AddResult {
+  entry: string;
+  slug?: string;
+  type?: ItemType;
+  added: boolean;
+  message: string;
 }
 
 const Index = () => {
   const [slugInput, setSlugInput] = useState('');
-  const [plugins, setPlugins] = useState<PluginData[]>([]);
+  const [typeInput, setTypeInput] = useState<ItemType>('plugin');
+  const [listType, setListType] = useState<'all' | ItemType>('all');
+  const { plugins, setPlugins, isLoaded, recovery, confirmRecovery } = usePluginStore();
   const [selectedPlugin, setSelectedPlugin] = useState('');
   const [startDate, setStartDate] = useState<Date>();
   const [endDate, setEndDate] = useState<Date>();
   const [selectedRating, setSelectedRating] = useState('');
+  const [reviewStatus, setReviewStatus] = useState<'live' | 'archived'>('live');
+  // 'all', 'main' (wordpress.org itself) or a locale subdomain
+  const [selectedLocale, setSelectedLocale] = useState('all');
   const [filteredReviews, setFilteredReviews] = useState<Review[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [refreshingPlugin, setRefreshingPlugin] = useState<string>('');
-  const [showRssFetcher, setShowRssFetcher] = useState(false);
-  const [currentRssFeed, setCurrentRssFeed] = useState<string>('');
-  const [currentPluginSlug, setCurrentPluginSlug] = useState<string>('');
-
-  // Load plugins from localStorage on component mount
-  useEffect(() => {
-    const savedPlugins = localStorage.getItem('wordpress-plugins');
-    if (savedPlugins) {
-      setPlugins(JSON.parse(savedPlugins));
-    }
-  }, []);
-
-  // Save plugins to localStorage whenever plugins state changes
-  useEffect(() => {
-    localStorage.setItem('wordpress-plugins', JSON.stringify(plugins));
-  }, [plugins]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [addResults, setAddResults] = useState<AddResult[]>([]);
+  const { settings } = useSettings();
+  const pluginsRef = useRef(plugins);
+  pluginsRef.current = plugins;
+  // Slugs queued by auto-refresh; these only toast when something new arrived
+  const backgroundRefreshes = useRef(new Set<string>());
+  // Type of each item being added, until its first fetch stores it
+  const addingTypes = useRef(new Map<string, ItemType>());
+  const [repairingRatings, setRepairingRatings] = useState(false);
+  // Reviews checked so far in the running "Resolve estimated dates" pass
+  const [dateProgress, setDateProgress] = useState<{ done: number; total: number } | null>(null);
+  const resolveDatesController = useRef<AbortController | null>(null);
+  const { backfillJobs, startBackfill, pauseBackfill } = useBackfill(
+    (slug, reviews) => {
+      setPlugins(current => current.map(p => p.slug === slug ? mergePluginReviews(p, reviews, p.lastUpdated) : p));
+    },
+    (slug, ids) => {
+      setPlugins(current => current.map(p => p.slug === slug ? markReviewsRemoved(p, ids) : p));
+    },
+    slug => pluginsRef.current.find(p => p.slug === slug)?.reviews || [],
+  );
 
   // Filter reviews based on selected criteria
   useEffect(() => {
@@ -68,42 +95,56 @@ const Index = () => {
     const plugin = plugins.find(p => p.slug === selectedPlugin);
     if (!plugin) return;
 
-    let filtered = [...plugin.reviews];
+    // Removed reviews only show up in the archived view
+    let filtered = plugin.reviews.filter(review => (reviewStatus === 'archived') === !!review.removedAt);
 
     // Filter by date range
     if (startDate) {
       filtered = filtered.filter(review => new Date(review.date) >= startDate);
     }
     if (endDate) {
-      filtered = filtered.filter(review => new Date(review.date) <= endDate);
+      filtered = filtered.filter(review => new Date(review.date) <= endOfDay(endDate));
+    }
+
+    // Filter by locale forum
+    if (selectedLocale === 'main') {
+      filtered = filtered.filter(review => !review.locale);
+    } else if (selectedLocale !== 'all') {
+      filtered = filtered.filter(review => review.locale === selectedLocale);
     }
 
     // Filter by rating
-    if (selectedRating && selectedRating !== 'all') {
+    if (selectedRating === 'unknown') {
+      filtered = filtered.filter(review => review.rating === null);
+    } else if (selectedRating === 'changed') {
+      filtered = filtered.filter(review => originalRating(review) !== null);
+    } else if (selectedRating && selectedRating !== 'all') {
       filtered = filtered.filter(review => review.rating === parseInt(selectedRating));
     }
 
     setFilteredReviews(filtered);
-  }, [selectedPlugin, startDate, endDate, selectedRating, plugins]);
+  }, [selectedPlugin, startDate, endDate, selectedRating, reviewStatus, selectedLocale, plugins]);
 
-  const fetchPluginInfo = async (slug: string) => {
-    try {
-      const response = await fetch(`https://api.wordpress.org/plugins/info/1.0/${slug}.json`);
-      if (!response.ok) {
-        throw new Error('Plugin not found');
-      }
-      const data = await response.json();
-      return {
-        name: data.name,
-        exists: true
-      };
-    } catch (error) {
-      return {
-        name: null,
-        exists: false
-      };
-    }
-  };
+  const unknownRatingCount = plugins
+    .find(p => p.slug === selectedPlugin)?.reviews
+    .filter(review => review.rating === null && review.reviewUrl && !review.removedAt).length || 0;
+
+  const selectedPluginData = plugins.find(p => p.slug === selectedPlugin);
+
+  // Locales configured for the selected plugin or seen on its stored reviews
+  const availableLocales = Array.from(new Set([
+    ...(selectedPluginData?.locales || []),
+    ...(selectedPluginData?.reviews.map(review => review.locale).filter(Boolean) || []),
+  ])).sort();
+
+  const hasThemes = plugins.some(plugin => itemType(plugin) === 'theme');
+  const visiblePlugins = hasThemes && listType !== 'all'
+    ? plugins.filter(plugin => itemType(plugin) === listType)
+    : plugins;
+
+  const estimatedDateCount = plugins
+    .find(p => p.slug === selectedPlugin)?.reviews
+    .filter(review => hasEstimatedDate(review) && review.reviewUrl && !review.removedAt).length || 0;
 
   const formatPluginName = (slug: string) => {
     // Convert slug to title case
@@ -131,141 +172,237 @@ const Index = () => {
     return parts[0].trim();
   };
 
+  // Checks one entry of the add form. Slugs in `claimed` were taken by an
+  // earlier entry of the same list.
+  const checkNewItem = async (entry: string, defaultType: ItemType, claimed: Set<string>): Promise<AddResult> => {
+    const reference = parseItemReference(entry);
+    if (!reference) {
+      return { entry, added: false, message: 'Not a slug or a wordpress.org plugin, theme or forum URL' };
+    }
+    const { slug } = reference;
+    // A URL names its directory; bare slugs use the default type
+    const type = reference.type ?? defaultType;
+
+    // Items are stored by slug, so a plugin and a theme with the same slug
+    // can't both be tracked
+    const existing = plugins.find(p => p.slug === slug);
+    if (existing) {
+      return {
+        entry,
+        slug,
+        added: false,
+        message: itemType(existing) !== type
+          ? `"${slug}" is already tracked as a ${itemType(existing)}`
+          : `This ${type} is already added`,
+      };
+    }
+    if (claimed.has(slug) || ['queued', 'fetching'].includes(fetchJobs[slug]?.status)) {
+      return { entry, slug, added: false, message: `This ${type} is already being added` };
+    }
+    claimed.add(slug);
+
+    // Fetch plugin or theme info to validate existence
+    const pluginInfo = await fetchPluginInfo(slug, type);
+    return pluginInfo.exists
+      ? { entry, slug, type, added: true, message: `Added as a ${type}` }
+      : { entry, slug, added: false, message: `This ${type} doesn't exist on WordPress.org` };
+  };
+
+  // Validates the entries in parallel and queues the ones that can be added
+  const addEntries = async (entries: string[], defaultType: ItemType) => {
+    setIsAdding(true);
+    const claimed = new Set<string>();
+    const results = await Promise.all(entries.map(entry => checkNewItem(entry, defaultType, claimed)));
+    setIsAdding(false);
+
+    const added = results.filter(result => result.added);
+    added.forEach(result => addingTypes.current.set(result.slug, result.type));
+    if (added.length > 0) enqueueFetch(added.map(result => result.slug));
+    return results;
+  };
+
+  // Adds every slug or URL in the form
   const handleAddPlugin = async () => {
-    if (!slugInput.trim()) {
+    const entries = splitItemReferences(slugInput);
+    if (entries.length === 0) {
       toast({
         title: "Error",
-        description: "Please enter a plugin slug",
+        description: `Please enter a ${typeInput} slug or URL`,
         variant: "destructive",
       });
       return;
     }
 
-    const slug = slugInput.trim().toLowerCase();
-    
-    // Check if plugin already exists
-    if (plugins.find(p => p.slug === slug)) {
+    const results = await addEntries(entries, typeInput);
+    const added = results.filter(result => result.added);
+    // Entries that failed stay in the form so they can be corrected
+    setSlugInput(results.filter(result => !result.added).map(result => result.entry).join('\n'));
+
+    if (results.length === 1) {
+      setAddResults([]);
+      if (!results[0].added) {
+        toast({
+          title: "Error",
+          description: results[0].message,
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
+    setAddResults(results);
+    toast({
+      title: added.length > 0 ? "Adding items" : "Error",
+      description: `${added.length} of ${results.length} entries added`,
+      variant: added.length > 0 ? "default" : "destructive",
+    });
+  };
+
+  const handleAddSearchResult = async (slug: string) => {
+    const [result] = await addEntries([slug], 'plugin');
+    if (!result.added) {
       toast({
         title: "Error",
-        description: "This plugin is already added",
+        description: result.message,
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    setIsLoading(true);
-    
-    // Fetch plugin info to validate existence
-    const pluginInfo = await fetchPluginInfo(slug);
-    
-    if (!pluginInfo.exists) {
-      setIsLoading(false);
+  const handleRefreshPlugin = (slug: string) => {
+    backgroundRefreshes.current.delete(slug);
+    enqueueFetch(slug);
+  };
+
+  const handleRefreshAll = () => {
+    backgroundRefreshes.current.clear();
+    enqueueFetch(plugins.map(p => p.slug));
+  };
+
+  // Tracked items know their type; new ones take it from the add form
+  const typeOf = (slug: string): ItemType => {
+    const plugin = pluginsRef.current.find(p => p.slug === slug);
+    return plugin ? itemType(plugin) : addingTypes.current.get(slug) ?? 'plugin';
+  };
+
+  // Queue job: fetches the latest reviews (RSS feed with HTML fallback) and merges them in
+  const fetchReviews = async (slug: string, signal: AbortSignal) => {
+    const plugin = pluginsRef.current.find(p => p.slug === slug);
+    const storedReviews = plugin?.reviews || [];
+    const locales = plugin?.locales || [];
+    const background = backgroundRefreshes.current.delete(slug);
+    try {
+      const result = await fetchForumReviews(slug, typeOf(slug), locales, storedReviews, signal);
+      // The support forums are a side stream; if they fail the reviews are still saved
+      for (const locale of [undefined, ...locales]) {
+        if (signal.aborted) break;
+        await refreshSupportThreads(slug, typeOf(slug), signal, locale)
+          .catch(error => console.warn(`Failed to refresh support threads for ${slug} on ${localeLabel(locale)}:`, error));
+      }
+      if (signal.aborted) return;
+      await handleReviewsFetched(slug, result, background);
+    } catch (error) {
+      if (signal.aborted || background) throw error;
       toast({
         title: "Error",
-        description: "This plugin doesn't exist on WordPress.org",
+        description: `Failed to fetch reviews for ${slug}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
-      return;
+      throw error;
     }
-
-    // Set up RSS feed URL for the plugin
-    const rssFeedUrl = `https://wordpress.org/support/plugin/${slug}/reviews/feed/`;
-    setCurrentRssFeed(rssFeedUrl);
-    setCurrentPluginSlug(slug);
-    setShowRssFetcher(true);
-    setSlugInput('');
   };
 
-  const handleRefreshPlugin = (slug: string) => {
-    const rssFeedUrl = `https://wordpress.org/support/plugin/${slug}/reviews/feed/`;
-    setCurrentRssFeed(rssFeedUrl);
-    setCurrentPluginSlug(slug);
-    setRefreshingPlugin(slug);
-    setShowRssFetcher(true);
-  };
+  const { jobs: fetchJobs, enqueue: enqueueFetch, cancel: cancelFetch } = useFetchQueue(fetchReviews, settings.fetchConcurrency);
 
-  const upsertReviews = (existingReviews: Review[], newReviews: Review[]): Review[] => {
-    const reviewMap = new Map();
-    
-    // Add existing reviews to map
-    existingReviews.forEach(review => {
-      const key = review.id || `${review.author}-${review.date}-${review.content.substring(0, 50)}`;
-      reviewMap.set(key, review);
+  // Plugins being added: queued or fetching but not in the list yet
+  const pendingSlugs = Object.values(fetchJobs)
+    .filter(job => (job.status === 'queued' || job.status === 'fetching') && !plugins.some(p => p.slug === job.slug))
+    .map(job => job.slug);
+
+  const { nextRefresh } = useAutoRefresh(plugins, fetchJobs, slugs => {
+    slugs.forEach(slug => backgroundRefreshes.current.add(slug));
+    enqueueFetch(slugs);
+  }, settings.autoRefreshMinutes, isLoaded);
+
+  const handleReviewsFetched = async (slug: string, result: SourcedReviews, background = false) => {
+    // Fetch plugin name
+    const type = typeOf(slug);
+    const pluginInfo = await fetchPluginInfo(slug, type);
+    const pluginName = pluginInfo.name ? cleanPluginName(pluginInfo.name) : formatPluginName(slug);
+    const existingPlugin = pluginsRef.current.find(p => p.slug === slug);
+    const isExisting = !!existingPlugin;
+
+    const applyRefresh = (plugin: PluginData): PluginData => ({
+      ...applyReviewThreads(markReviewsRemoved(mergePluginReviews(plugin, result.reviews), result.removedIds), result.threads),
+      name: pluginName,
+      metadata: pluginInfo.metadata || plugin.metadata,
     });
-    
-    // Add/update with new reviews
-    newReviews.forEach(review => {
-      const key = review.id || `${review.author}-${review.date}-${review.content.substring(0, 50)}`;
-      reviewMap.set(key, review);
+    const newPlugin: PluginData = applyReviewThreads({
+      slug,
+      type,
+      name: pluginName,
+      reviews: result.reviews,
+      lastUpdated: new Date().toISOString(),
+      totalReviews: result.reviews.length,
+      metadata: pluginInfo.metadata
+    }, result.threads);
+
+    setPlugins(current => {
+      const existing = current.find(p => p.slug === slug);
+      if (existing) {
+        // Upsert: merge new reviews with existing ones
+        return current.map(p => p === existing ? applyRefresh(p) : p);
+      }
+      return [...current, newPlugin];
     });
-    
-    return Array.from(reviewMap.values());
-  };
+    addingTypes.current.delete(slug);
 
-  const handleRssReviewsFetched = async (newReviews: Review[]) => {
-    if (!currentPluginSlug) return;
+    // Keep a history of the metrics as they stand after this refresh
+    appendSnapshot(createSnapshot(existingPlugin ? applyRefresh(existingPlugin) : newPlugin))
+      .catch(error => console.warn(`Failed to save metrics snapshot for ${slug}:`, error));
     
-    // Fetch plugin name
-    const pluginInfo = await fetchPluginInfo(currentPluginSlug);
-    const pluginName = pluginInfo.name ? cleanPluginName(pluginInfo.name) : formatPluginName(currentPluginSlug);
-    
-    const updatedPlugins = [...plugins];
-    const existingIndex = updatedPlugins.findIndex(p => p.slug === currentPluginSlug);
-    
-    let finalReviews = newReviews;
-    
-    if (existingIndex >= 0) {
-      // Upsert: merge new reviews with existing ones
-      const existingReviews = updatedPlugins[existingIndex].reviews;
-      finalReviews = upsertReviews(existingReviews, newReviews);
-      
-      updatedPlugins[existingIndex] = {
-        ...updatedPlugins[existingIndex],
-        name: pluginName,
-        reviews: finalReviews,
-        lastUpdated: new Date().toISOString(),
-        totalReviews: finalReviews.length
-      };
-    } else {
-      // New plugin
-      const pluginData: PluginData = {
-        slug: currentPluginSlug,
-        name: pluginName,
-        reviews: finalReviews,
-        lastUpdated: new Date().toISOString(),
-        totalReviews: finalReviews.length
-      };
-      updatedPlugins.push(pluginData);
+    if (background) {
+      const knownIds = new Set(existingPlugin?.reviews.map(review => review.id));
+      const newReviews = result.reviews.filter(review => !knownIds.has(review.id));
+      if (newReviews.length > 0) {
+        toast({
+          title: "New reviews",
+          description: `${newReviews.length} new reviews for ${pluginName}`,
+        });
+      }
+      return;
     }
 
-    setPlugins(updatedPlugins);
-    setShowRssFetcher(false);
-    setCurrentRssFeed('');
-    setCurrentPluginSlug('');
-    setIsLoading(false);
-    setRefreshingPlugin('');
-    
-    const action = existingIndex >= 0 ? 'refreshed' : 'fetched';
+    const action = isExisting ? 'refreshed' : 'fetched';
+    const via = result.sources.includes('html') ? ` (HTML pages used: ${result.fallbackReason})` : '';
     toast({
       title: "Success!",
-      description: `${action} ${finalReviews.length} reviews for ${pluginName}`,
+      description: `${action} ${result.reviews.length} reviews for ${pluginName}${via}`,
     });
   };
 
-  const handleRssError = (error: string) => {
-    toast({
-      title: "Error",
-      description: `Failed to fetch reviews: ${error}`,
-      variant: "destructive",
-    });
-    setShowRssFetcher(false);
-    setCurrentRssFeed('');
-    setCurrentPluginSlug('');
-    setIsLoading(false);
-    setRefreshingPlugin('');
+  const handleChangeRefreshInterval = (slug: string, minutes?: number) => {
+    setPlugins(current => current.map(p => p.slug === slug ? { ...p, refreshIntervalMinutes: minutes } : p));
+  };
+
+  // New locale forums are fetched straight away; reviews from dropped ones are kept
+  const handleChangeLocales = (slug: string, locales: string[]) => {
+    const previous = plugins.find(p => p.slug === slug)?.locales || [];
+    setPlugins(current => current.map(p => p.slug === slug ? { ...p, locales: locales.length > 0 ? locales : undefined } : p));
+    if (locales.some(locale => !previous.includes(locale))) {
+      // The queue may start the job before the state update has rendered
+      pluginsRef.current = pluginsRef.current.map(p => p.slug === slug ? { ...p, locales } : p);
+      enqueueFetch(slug);
+    }
+  };
+
+  const handleThreadLoaded = (reviewId: string, thread: ReviewThread) => {
+    setPlugins(current => current.map(p => p.slug === selectedPlugin ? applyReviewThreads(p, { [reviewId]: thread }) : p));
   };
 
   const handleRemovePlugin = (slug: string) => {
+    pauseBackfill(slug);
+    cancelFetch(slug);
     const updatedPlugins = plugins.filter(p => p.slug !== slug);
     setPlugins(updatedPlugins);
     
@@ -281,14 +418,8 @@ const Index = () => {
   };
 
   const exportData = () => {
-    const dataStr = JSON.stringify(plugins, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'wordpress-plugin-reviews.json';
-    link.click();
-    URL.revokeObjectURL(url);
+    const dataStr = JSON.stringify(createExportPayload(plugins), null, 2);
+    downloadFile(dataStr, 'wordpress-plugin-reviews.json');
     
     toast({
       title: "Success",
@@ -305,7 +436,7 @@ const Index = () => {
       // Fetch plugin name if not present
       let pluginName = uploadedPlugin.name;
       if (!pluginName) {
-        const pluginInfo = await fetchPluginInfo(uploadedPlugin.slug);
+        const pluginInfo = await fetchPluginInfo(uploadedPlugin.slug, itemType(uploadedPlugin));
         pluginName = pluginInfo.name ? cleanPluginName(pluginInfo.name) : formatPluginName(uploadedPlugin.slug);
       } else {
         // Clean existing plugin name
@@ -318,6 +449,7 @@ const Index = () => {
         mergedPlugins[existingIndex] = {
           ...mergedPlugins[existingIndex],
           name: pluginName,
+          metadata: mergedPlugins[existingIndex].metadata || uploadedPlugin.metadata,
           reviews: mergedReviews,
           totalReviews: mergedReviews.length,
           lastUpdated: new Date().toISOString()
@@ -335,23 +467,100 @@ const Index = () => {
     setPlugins(mergedPlugins);
   };
 
-  const renderStars = (rating: number) => {
-    return Array.from({ length: 5 }, (_, i) => (
-      <Star
-        key={i}
-        className={cn(
-          "w-4 h-4",
-          i < rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
-        )}
-      />
-    ));
+  // Re-reads unknown ratings from the review listing pages, and the topic pages
+  // of the few reviews those didn't show. Removed reviews aren't listed anymore.
+  const handleRepairRatings = async (slug: string) => {
+    const plugin = plugins.find(p => p.slug === slug);
+    const pending = plugin?.reviews.filter(review => review.rating === null && review.reviewUrl && !review.removedAt) || [];
+    if (pending.length === 0) return;
+
+    setRepairingRatings(true);
+    const repaired = await recoverRatings(slug, itemType(plugin), pending);
+
+    setPlugins(current => current.map(p => p.slug !== slug ? p : {
+      ...p,
+      reviews: p.reviews.map(review =>
+        repaired.has(review.id) ? { ...review, rating: repaired.get(review.id) } : review
+      )
+    }));
+    setRepairingRatings(false);
+    
+    toast({
+      title: "Ratings re-checked",
+      description: `Recovered ${repaired.size} of ${pending.length} unknown ratings`,
+    });
+  };
+
+  // Reads estimated review dates from the lead post of each topic page, in
+  // batches that are saved as they finish. A run is capped and can be cancelled;
+  // running it again continues with the reviews that are still estimated.
+  const handleResolveDates = async (slug: string) => {
+    if (resolveDatesController.current) {
+      resolveDatesController.current.abort();
+      return;
+    }
+
+    const plugin = plugins.find(p => p.slug === slug);
+    const estimated = plugin?.reviews.filter(review => hasEstimatedDate(review) && review.reviewUrl && !review.removedAt) || [];
+    const pending = estimated.slice(0, MAX_DATES_PER_RUN);
+    if (pending.length === 0) return;
+
+    const controller = new AbortController();
+    resolveDatesController.current = controller;
+    setDateProgress({ done: 0, total: pending.length });
+    let resolved = 0;
+    let checked = 0;
+
+    try {
+      for (let start = 0; start < pending.length; start += DATE_BATCH_SIZE) {
+        const threads: Record<string, ReviewThread> = {};
+        for (const review of pending.slice(start, start + DATE_BATCH_SIZE)) {
+          try {
+            const thread = await fetchReviewThread(review.reviewUrl, controller.signal);
+            if (thread.postedAt) {
+              threads[review.id] = thread;
+            }
+          } catch (error) {
+            if (controller.signal.aborted) break;
+            console.warn(`Failed to resolve the date of ${review.reviewUrl}:`, error);
+          }
+          checked++;
+        }
+
+        // Saved per batch, so a cancelled or interrupted run keeps what it found
+        resolved += Object.keys(threads).length;
+        setPlugins(current => current.map(p => p.slug === slug ? applyReviewThreads(p, threads) : p));
+        setDateProgress({ done: checked, total: pending.length });
+        if (controller.signal.aborted) break;
+      }
+    } finally {
+      resolveDatesController.current = null;
+      setDateProgress(null);
+    }
+
+    const remaining = estimated.length - resolved;
+    toast({
+      title: controller.signal.aborted ? "Date resolving stopped" : "Dates resolved",
+      description: `Found the exact date for ${resolved} of ${checked} reviews checked` +
+        (remaining > 0 ? `; ${remaining} estimated dates remain` : ''),
+    });
   };
 
   return (
     // <div className="bg-white p-4" style={{ maxHeight: '750px', height: '750px' }}>
     <div className="bg-white p-4">
+      {recovery && (
+        <RecoveryDialog
+          report={recovery.report}
+          rawPayload={recovery.rawPayload}
+          onConfirm={confirmRecovery}
+        />
+      )}
       <div className="max-w-7xl mx-auto h-full">
-        <div className="text-center mb-8">
+        <div className="relative text-center mb-8">
+          <div className="absolute right-0 top-0">
+            <SettingsDialog />
+          </div>
           <h1 className="text-4xl font-bold text-black mb-2">
             WordPress Plugin Review Tracker
           </h1>
@@ -370,28 +579,72 @@ const Index = () => {
               <CardHeader className="bg-white border-b border-gray-200 rounded-t-lg">
                 <CardTitle className="flex items-center gap-2 text-black">
                   <Search className="w-5 h-5" />
-                  Add Plugin
+                  Add Plugin or Theme
                 </CardTitle>
               </CardHeader>
-              <CardContent className="p-6 flex gap-2 items-end justify-between">
-                <div>
-                  <Label htmlFor="slug" className="text-sm font-medium text-gray-700">Plugin Slug</Label>
-                  <Input
-                    id="slug"
-                    value={slugInput}
-                    onChange={(e) => setSlugInput(e.target.value)}
-                    placeholder="https://wp.org/plugins/{plugin-slug}/"
-                    onKeyPress={(e) => e.key === 'Enter' && handleAddPlugin()}
-                    className="w-full inline-block focus-visible:ring-offset-0 focus-visible:ring-1"
-                  />
+              <CardContent className="p-6 space-y-3">
+                <div className="flex gap-2 items-end justify-between">
+                  <div className="flex-1">
+                    <Label htmlFor="slug" className="text-sm font-medium text-gray-700">{typeInput === 'theme' ? 'Theme Slugs or URLs' : 'Plugin Slugs or URLs'}</Label>
+                    <div className="flex gap-2">
+                      <Select value={typeInput} onValueChange={value => setTypeInput(value as ItemType)}>
+                        <SelectTrigger className="w-28" aria-label="Type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="plugin">Plugin</SelectItem>
+                          <SelectItem value="theme">Theme</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Textarea
+                        id="slug"
+                        rows={1}
+                        value={slugInput}
+                        onChange={(e) => setSlugInput(e.target.value)}
+                        placeholder={`https://wp.org/${typeInput}s/{${typeInput}-slug}/`}
+                        title="One slug or URL, or a list separated by newlines or commas. Shift+Enter starts a new line."
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleAddPlugin();
+                          }
+                        }}
+                        className="w-full min-h-10 resize-y focus-visible:ring-offset-0 focus-visible:ring-1"
+                      />
+                    </div>
+                  </div>
+                  <Button 
+                    onClick={handleAddPlugin} 
+                    disabled={isAdding}
+                    className="bg-black hover:bg-gray-800 text-white"
+                  >
+                    {isAdding ? 'Adding...' : 'Add'}
+                  </Button>
                 </div>
-                <Button 
-                  onClick={handleAddPlugin} 
-                  disabled={isLoading}
-                  className="bg-black hover:bg-gray-800 text-white"
-                >
-                  {isLoading ? 'Adding Plugin...' : 'Add Plugin'}
-                </Button>
+                <PluginSearch
+                  trackedSlugs={[...plugins.map(p => p.slug), ...pendingSlugs]}
+                  onSelect={handleAddSearchResult}
+                />
+                {addResults.length > 0 && (
+                  <div className="border rounded-md p-2 text-xs">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-medium text-gray-700">
+                        {addResults.filter(result => result.added).length} of {addResults.length} added
+                      </span>
+                      <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => setAddResults([])} title="Dismiss">
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <ul className="space-y-1 max-h-40 overflow-y-auto">
+                      {addResults.map((result, index) => (
+                        <li key={index} className={cn("flex gap-2", result.added ? "text-green-700" : "text-red-600")}>
+                          <span className="font-medium truncate max-w-[50%]" title={result.entry}>{result.slug || result.entry}</span>
+                          <span>{result.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -402,6 +655,23 @@ const Index = () => {
                 <CardTitle className="flex items-center justify-between text-black">
                   <span>Added Plugins ({plugins.length})</span>
                   <div className="flex gap-2">
+                    {plugins.length > 0 && (
+                      <ResponseDashboard
+                        plugins={plugins}
+                        selectedSlug={selectedPlugin}
+                        getDisplayName={plugin => plugin.name || formatPluginName(plugin.slug)}
+                      />
+                    )}
+                    {plugins.length > 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRefreshAll}
+                        title="Refresh all plugins"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                    )}
                     <div title="Upload plugin data">
                       <FileUploader onDataUploaded={handleDataUpload} />
                     </div>
@@ -422,103 +692,68 @@ const Index = () => {
 
               {/* Added plugins lists */}
               <CardContent className="p-6">
+                {hasThemes && (
+                  <Select value={listType} onValueChange={value => setListType(value as 'all' | ItemType)}>
+                    <SelectTrigger className="mb-3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Plugins and themes</SelectItem>
+                      <SelectItem value="plugin">Plugins only</SelectItem>
+                      <SelectItem value="theme">Themes only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
                 <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {(isLoading || showRssFetcher) && (
-                    <div className="text-center py-4">
-                      <div className="flex items-center justify-center gap-2 text-black">
-                        <RefreshCw className="w-4 h-4 animate-spin" />
-                        <span className="text-sm">Fetching reviews...</span>
+                  {pendingSlugs.map(slug => (
+                    <div key={slug} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+                      <div className="flex items-center gap-2 text-black">
+                        <RefreshCw className={fetchJobs[slug].status === 'fetching' ? "w-4 h-4 animate-spin" : "w-4 h-4"} />
+                        <span className="text-sm">
+                          {fetchJobs[slug].status === 'fetching' ? `Fetching reviews for ${slug}...` : `${slug} is queued`}
+                        </span>
                       </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelFetch(slug)}
+                        className="hover:bg-gray-200 hover:text-black"
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
                     </div>
-                  )}
+                  ))}
                   {plugins.length === 0 ? (
                     <p className="text-gray-500 text-center py-8">
                       No plugins added yet
                     </p>
                   ) : (
                     <>
-                      {plugins.slice(0, 5).map((plugin) => (
-                        <div
+                      {visiblePlugins.map((plugin) => (
+                        <PluginListItem
                           key={plugin.slug}
-                          className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200 hover:border-gray-300 transition-colors"
-                        >
-                          <div className="flex-1">
-                            <div className="font-semibold text-black">{plugin.name || formatPluginName(plugin.slug)}</div>
-                            <div className="text-sm text-gray-600">
-                              {plugin.reviews.length} reviews stored
-                            </div>
-                            <div className="text-xs text-gray-400">
-                              Last updated: {new Date(plugin.lastUpdated).toLocaleDateString()}
-                            </div>
-                          </div>
-                          <div className="flex gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleRefreshPlugin(plugin.slug)}
-                              disabled={isLoading}
-                              className="hover:bg-gray-200 hover:text-black"
-                              title="Refresh reviews"
-                            >
-                              <RefreshCw className={cn("w-4 h-4", refreshingPlugin === plugin.slug && "animate-spin")} />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleRemovePlugin(plugin.slug)}
-                              className="hover:bg-red-50 hover:text-red-600"
-                              title="Remove plugin"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        </div>
+                          plugin={plugin}
+                          displayName={plugin.name || formatPluginName(plugin.slug)}
+                          fetchJob={fetchJobs[plugin.slug]}
+                          nextRefresh={nextRefresh[plugin.slug]}
+                          globalRefreshMinutes={settings.autoRefreshMinutes}
+                          backfill={backfillJobs[plugin.slug]}
+                          onRefresh={() => handleRefreshPlugin(plugin.slug)}
+                          onCancelFetch={() => cancelFetch(plugin.slug)}
+                          onChangeRefreshInterval={minutes => handleChangeRefreshInterval(plugin.slug, minutes)}
+                          onChangeLocales={locales => handleChangeLocales(plugin.slug, locales)}
+                          onRemove={() => handleRemovePlugin(plugin.slug)}
+                          onStartBackfill={() => startBackfill(plugin.slug, itemType(plugin))}
+                          onPauseBackfill={() => pauseBackfill(plugin.slug)}
+                        />
                       ))}
                       {plugins.length > 5 && (
-                        <>
-                          {plugins.slice(5).map((plugin) => (
-                            <div
-                              key={plugin.slug}
-                              className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200 hover:border-gray-300 transition-colors"
-                            >
-                              <div className="flex-1">
-                                <div className="font-semibold text-black">{plugin.name || formatPluginName(plugin.slug)}</div>
-                                <div className="text-sm text-gray-600">
-                                  {plugin.reviews.length} reviews stored
-                                </div>
-                                <div className="text-xs text-gray-400">
-                                  Last updated: {new Date(plugin.lastUpdated).toLocaleDateString()}
-                                </div>
-                              </div>
-                              <div className="flex gap-2">
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleRefreshPlugin(plugin.slug)}
-                                  disabled={isLoading}
-                                  className="hover:bg-gray-200 hover:text-black"
-                                  title="Refresh reviews"
-                                >
-                                  <RefreshCw className={cn("w-4 h-4", refreshingPlugin === plugin.slug && "animate-spin")} />
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleRemovePlugin(plugin.slug)}
-                                  className="hover:bg-red-50 hover:text-red-600"
-                                  title="Remove plugin"
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
-                              </div>
-                            </div>
-                          ))}
-                          <div className="text-center py-2 bg-gray-100 rounded border-t">
-                            <p className="text-xs text-gray-600 font-medium">
-                              Showing {plugins.length} plugins • Scroll to see all
-                            </p>
-                          </div>
-                        </>
+                        <div className="text-center py-2 bg-gray-100 rounded border-t">
+                          <p className="text-xs text-gray-600 font-medium">
+                            Showing {plugins.length} plugins • Scroll to see all
+                          </p>
+                        </div>
                       )}
                     </>
                   )}
@@ -529,17 +764,6 @@ const Index = () => {
 
           {/* Right Panel - Filtering and Results */}
           <div className="lg:col-span-2 h-full flex flex-col">
-            {/* Hidden RSS Fetcher */}
-            {showRssFetcher && currentRssFeed && (
-              <div className="hidden">
-                <RssFeedFetcher
-                  feedUrl={currentRssFeed}
-                  onReviewsFetched={handleRssReviewsFetched}
-                  onError={handleRssError}
-                />
-              </div>
-            )}
-
             {/* Filter Reviews section */}
             <Card className="mb-6 shadow-lg border border-gray-200">
               <CardHeader className="bg-white border-b border-gray-200 rounded-t-lg">
@@ -549,7 +773,7 @@ const Index = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="p-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
                   <div>
                     <Label>Plugin</Label>
                     <Select value={selectedPlugin} onValueChange={setSelectedPlugin} >
@@ -560,6 +784,7 @@ const Index = () => {
                         {plugins.map((plugin) => (
                           <SelectItem key={plugin.slug} value={plugin.slug}>
                             {plugin.name || formatPluginName(plugin.slug)}
+                            {itemType(plugin) === 'theme' && ' (theme)'}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -633,6 +858,37 @@ const Index = () => {
                         <SelectItem value="3">3 stars</SelectItem>
                         <SelectItem value="2">2 stars</SelectItem>
                         <SelectItem value="1">1 star</SelectItem>
+                        <SelectItem value="unknown">Unknown rating</SelectItem>
+                        <SelectItem value="changed">Rating changed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label>Status</Label>
+                    <Select value={reviewStatus} onValueChange={value => setReviewStatus(value as 'live' | 'archived')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="live">Live reviews</SelectItem>
+                        <SelectItem value="archived">Archived (removed)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label>Locale</Label>
+                    <Select value={selectedLocale} onValueChange={setSelectedLocale}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All forums</SelectItem>
+                        <SelectItem value="main">{localeLabel()}</SelectItem>
+                        {availableLocales.map(locale => (
+                          <SelectItem key={locale} value={locale}>{localeLabel(locale)}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -644,8 +900,39 @@ const Index = () => {
             {/* <Card className="shadow-lg border border-gray-200 flex-1 overflow-hidden"> */}
             <Card className="shadow-lg border border-gray-200 flex-1 max-h-full">
               <CardHeader className="bg-white border-b border-gray-200 rounded-t-lg">
-                <CardTitle className="text-black">
-                  Reviews ({filteredReviews.length})
+                <CardTitle className="flex items-center justify-between text-black">
+                  <span>Reviews ({filteredReviews.length})</span>
+                  <div className="flex gap-2">
+                    {estimatedDateCount > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResolveDates(selectedPlugin)}
+                        title={dateProgress
+                          ? "Stop resolving dates; what was found so far is kept"
+                          : `Read exact dates from the review pages, up to ${MAX_DATES_PER_RUN} per run`}
+                      >
+                        <RefreshCw className={cn("w-4 h-4", dateProgress && "animate-spin")} />
+                        {dateProgress
+                          ? `Resolving dates ${dateProgress.done}/${dateProgress.total}... (stop)`
+                          : estimatedDateCount > MAX_DATES_PER_RUN
+                            ? `Resolve ${MAX_DATES_PER_RUN} of ${estimatedDateCount} estimated dates`
+                            : `Resolve ${estimatedDateCount} estimated dates`}
+                      </Button>
+                    )}
+                    {unknownRatingCount > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRepairRatings(selectedPlugin)}
+                        disabled={repairingRatings}
+                        title="Read missing ratings from the review pages"
+                      >
+                        <RefreshCw className={cn("w-4 h-4", repairingRatings && "animate-spin")} />
+                        {repairingRatings ? 'Re-checking ratings...' : `Re-check ${unknownRatingCount} unknown ratings`}
+                      </Button>
+                    )}
+                  </div>
                 </CardTitle>
               </CardHeader>
 
@@ -663,47 +950,16 @@ const Index = () => {
                 ) : (
                   // <div className="space-y-4 h-full overflow-y-auto">
                   <div className="space-y-4 max-h-96 overflow-y-auto">
-                    {filteredReviews.map((review, index) => (
-                      <div
-                        key={index}
-                        className="border rounded-lg p-4 bg-white shadow-sm hover:shadow-md transition-shadow border-gray-200"
-                      >
-                        <div className="flex items-center justify-between mb-3">
-                          <div className="flex items-center gap-2">
-                            {renderStars(review.rating)}
-                            <span className="text-sm text-gray-600 font-medium">
-                              {review.rating}/5
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <span className="text-sm text-gray-500">
-                              {review.date}
-                            </span>
-                            {review.reviewUrl && (
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => window.open(review.reviewUrl, '_blank')}
-                                className="hover:bg-gray-100 hover:text-black"
-                                title="View original review"
-                              >
-                                <ExternalLink className="w-4 h-4" />
-                              </Button>
-                            )}
-                          </div>
-                        </div>
-                        <p className="text-gray-700 text-sm leading-relaxed mb-3">
-                          {review.content}
-                        </p>
-                        <div className="text-xs text-gray-500 font-medium">
-                          by {review.author}
-                        </div>
-                      </div>
+                    {filteredReviews.map((review) => (
+                      <ReviewCard key={review.id} review={review} onThreadLoaded={handleThreadLoaded} />
                     ))}
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            {/* Support forum section */}
+            {selectedPluginData && <SupportThreadsCard key={selectedPluginData.slug} plugin={selectedPluginData} />}
           </div>
         </div>
       </div>